@@ -7,7 +7,7 @@
  * It's designed to be run as a postinstall script.
  */
 
-const requiredNodeVersion = '16.0.0';
+const requiredNodeVersion = '18.0.0';
 const currentNodeVersion = process.versions.node;
 
 /**
@@ -45,10 +45,10 @@ if (compareVersions(currentNodeVersion, requiredNodeVersion) < 0) {
   console.error('\x1b[31m%s\x1b[0m', '║    https://github.com/nvm-sh/nvm                               ║');
   console.error('\x1b[31m%s\x1b[0m', '║                                                                ║');
   console.error('\x1b[31m%s\x1b[0m', '║ 2. Install the correct Node.js version:                        ║');
-  console.error('\x1b[31m%s\x1b[0m', '║    $ nvm install 16                                            ║');
+  console.error('\x1b[31m%s\x1b[0m', '║    $ nvm install 18                                            ║');
   console.error('\x1b[31m%s\x1b[0m', '║                                                                ║');
   console.error('\x1b[31m%s\x1b[0m', '║ 3. Use the correct Node.js version:                            ║');
-  console.error('\x1b[31m%s\x1b[0m', '║    $ nvm use 16                                                ║');
+  console.error('\x1b[31m%s\x1b[0m', '║    $ nvm use 18                                                ║');
   console.error('\x1b[31m%s\x1b[0m', '║                                                                ║');
   console.error('\x1b[31m%s\x1b[0m', '║ 4. Try installing again                                        ║');
   console.error('\x1b[31m%s\x1b[0m', '╚════════════════════════════════════════════════════════════════╝');
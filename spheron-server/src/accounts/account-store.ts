@@ -0,0 +1,220 @@
+/**
+ * Named wallet accounts: private keys loaded from a keystore file and environment variables
+ */
+
+import { createHash } from 'crypto';
+import pkg from 'fs-extra';
+const { readFileSync } = pkg;
+import { Wallet } from 'ethers';
+import logger from '../utils/logger.js';
+import { getConfig } from '../config/index.js';
+
+/**
+ * A named wallet account. The private key never leaves this module except to create SDK clients.
+ */
+export interface Account {
+  name: string;
+  address: string;
+  privateKey: string;
+  // Where the account was configured: the keystore file or the environment variable holding its key
+  source: string;
+}
+
+/**
+ * Account as returned to clients, without its private key
+ */
+export interface AccountSummary {
+  name: string;
+  address: string;
+  source: string;
+  isDefault: boolean;
+}
+
+/**
+ * Keystore file named by the accountsFile setting (SPHERON_ACCOUNTS_FILE)
+ */
+interface AccountsFile {
+  default?: string;
+  accounts: Record<string, { privateKey?: string; privateKeyEnv?: string }>;
+}
+
+/**
+ * Raised when an operation names an account that is not configured
+ */
+export class UnknownAccountError extends Error {
+  readonly account: string;
+  readonly knownAccounts: string[];
+
+  constructor(account: string, knownAccounts: string[]) {
+    super(account
+      ? `Unknown account "${account}". Configured accounts: ${knownAccounts.join(', ') || 'none'}`
+      : `No account given and no default account is configured. Configured accounts: ${knownAccounts.join(', ')}`);
+    this.name = 'UnknownAccountError';
+    this.account = account;
+    this.knownAccounts = knownAccounts;
+  }
+}
+
+// Name of the account configured by the legacy SPHERON_PRIVATE_KEY variable
+export const LEGACY_ACCOUNT_NAME = 'default';
+
+// Key of the account the simulator backend uses when no account is configured
+const SIMULATOR_ACCOUNT_KEY = `0x${createHash('sha256').update('spheron-mcp-simulator').digest('hex')}`;
+
+// Prefix of the environment variables configuring named accounts
+const ACCOUNT_ENV_PREFIX = 'SPHERON_PRIVATE_KEY_';
+
+const ACCOUNT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+let accounts: Map<string, Account> | null = null;
+let defaultAccountName: string | null = null;
+
+/**
+ * Load the configured accounts. Sources, in order (a later source may not redefine an account):
+ * - the JSON keystore file named by the accountsFile setting
+ * - SPHERON_PRIVATE_KEY_<NAME> variables, defining the account <name> in lower case
+ * - SPHERON_PRIVATE_KEY, defining the account "default"
+ * - with the simulator backend and no other account, a generated account "default"
+ *
+ * The default account is the defaultAccount setting, else the file's "default", else
+ * "default" when configured, else the only account. Invalid configuration is an error.
+ * @returns Accounts keyed by name
+ */
+export function loadAccounts(): Map<string, Account> {
+  if (accounts) {
+    return accounts;
+  }
+
+  const loaded = new Map<string, Account>();
+  let fileDefault: string | undefined;
+
+  const add = (name: string, privateKey: string | undefined, source: string) => {
+    if (!ACCOUNT_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid account name "${name}" (${source}): use lower-case letters, digits, "-" and "_"`);
+    }
+    if (loaded.has(name)) {
+      throw new Error(`Account "${name}" is configured more than once (${loaded.get(name)!.source} and ${source})`);
+    }
+    if (!privateKey) {
+      throw new Error(`Account "${name}" has no private key (${source})`);
+    }
+
+    let address: string;
+    try {
+      address = new Wallet(privateKey).address;
+    } catch {
+      throw new Error(`Account "${name}" has an invalid private key (${source})`);
+    }
+    loaded.set(name, { name, address, privateKey, source });
+  };
+
+  const { accountsFile, defaultAccount } = getConfig();
+  if (accountsFile) {
+    const file = parseAccountsFile(JSON.parse(readFileSync(accountsFile, 'utf8')));
+    for (const [name, entry] of Object.entries(file.accounts)) {
+      const privateKey = entry.privateKeyEnv ? process.env[entry.privateKeyEnv] : entry.privateKey;
+      add(name, privateKey, entry.privateKeyEnv ? `${accountsFile} via ${entry.privateKeyEnv}` : accountsFile);
+    }
+    fileDefault = file.default;
+    logger.info('Accounts', `Loaded ${Object.keys(file.accounts).length} accounts from ${accountsFile}`);
+  }
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith(ACCOUNT_ENV_PREFIX) && value) {
+      add(key.slice(ACCOUNT_ENV_PREFIX.length).toLowerCase(), value, key);
+    }
+  }
+
+  if (process.env.SPHERON_PRIVATE_KEY) {
+    add(LEGACY_ACCOUNT_NAME, process.env.SPHERON_PRIVATE_KEY, 'SPHERON_PRIVATE_KEY');
+  }
+
+  // The simulator needs no funded wallet, so demos can run without configuring one
+  if (loaded.size === 0 && getConfig().backend.type === 'simulator') {
+    add(LEGACY_ACCOUNT_NAME, SIMULATOR_ACCOUNT_KEY, 'simulator');
+  }
+
+  if (loaded.size === 0) {
+    throw new Error('No accounts configured: set SPHERON_PRIVATE_KEY, SPHERON_PRIVATE_KEY_<NAME> or SPHERON_ACCOUNTS_FILE');
+  }
+
+  const configuredDefault = defaultAccount || fileDefault;
+  if (configuredDefault && !loaded.has(configuredDefault)) {
+    throw new UnknownAccountError(configuredDefault, [...loaded.keys()].sort());
+  }
+
+  defaultAccountName = configuredDefault
+    || (loaded.has(LEGACY_ACCOUNT_NAME) ? LEGACY_ACCOUNT_NAME : null)
+    || (loaded.size === 1 ? [...loaded.keys()][0] : null);
+  accounts = loaded;
+
+  return accounts;
+}
+
+/**
+ * Validate the shape of a keystore file
+ * @param value Parsed file content
+ * @returns Keystore file
+ */
+function parseAccountsFile(value: unknown): AccountsFile {
+  const candidate = value as Partial<AccountsFile> | null;
+  if (!candidate || typeof candidate !== 'object' || !candidate.accounts || typeof candidate.accounts !== 'object') {
+    throw new Error('Invalid accounts file: expected an object with an "accounts" map');
+  }
+  if (candidate.default !== undefined && typeof candidate.default !== 'string') {
+    throw new Error('Invalid accounts file: "default" must be an account name');
+  }
+
+  for (const [name, entry] of Object.entries(candidate.accounts)) {
+    if (!entry || typeof entry !== 'object' || (entry.privateKey === undefined) === (entry.privateKeyEnv === undefined)) {
+      throw new Error(`Invalid accounts file: account "${name}" needs exactly one of "privateKey" or "privateKeyEnv"`);
+    }
+  }
+
+  return candidate as AccountsFile;
+}
+
+/**
+ * Get the name of the default account
+ * @returns Account name, or null when several accounts are configured and none is the default
+ */
+export function getDefaultAccountName(): string | null {
+  loadAccounts();
+  return defaultAccountName;
+}
+
+/**
+ * Get an account by name
+ * @param name Account name (defaults to the default account)
+ * @returns Account
+ */
+export function getAccount(name?: string): Account {
+  const loaded = loadAccounts();
+  const accountName = name || defaultAccountName;
+
+  if (!accountName) {
+    throw new UnknownAccountError('', [...loaded.keys()].sort());
+  }
+
+  const account = loaded.get(accountName);
+  if (!account) {
+    throw new UnknownAccountError(accountName, [...loaded.keys()].sort());
+  }
+
+  return account;
+}
+
+/**
+ * List the configured accounts without their private keys
+ * @returns Account summaries, default account first
+ */
+export function listAccounts(): AccountSummary[] {
+  return [...loadAccounts().values()]
+    .map(account => ({
+      name: account.name,
+      address: account.address,
+      source: account.source,
+      isDefault: account.name === defaultAccountName
+    }))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,28 @@
+/**
+ * Named wallet accounts and their SDK clients
+ */
+
+import {
+  loadAccounts,
+  getAccount,
+  getDefaultAccountName,
+  listAccounts,
+  UnknownAccountError,
+  LEGACY_ACCOUNT_NAME,
+  Account,
+  AccountSummary
+} from './account-store.js';
+import { getSdkClient, NetworkNotServedError } from './sdk-pool.js';
+
+export {
+  loadAccounts,
+  getAccount,
+  getDefaultAccountName,
+  listAccounts,
+  UnknownAccountError,
+  LEGACY_ACCOUNT_NAME,
+  Account,
+  AccountSummary,
+  getSdkClient,
+  NetworkNotServedError
+};
@@ -0,0 +1,66 @@
+/**
+ * Spheron SDK clients, created on first use for each account and network.
+ *
+ * @spheron/protocol-sdk is not isolated per network: it reads NETWORK_TYPE once,
+ * when it is imported, to look up token addresses, and its constructor refuses any
+ * network but testnet. SDK clients are therefore only created for the default
+ * network, so one process serves one network. Simulated backends keep their network
+ * per instance and are not limited.
+ */
+
+import { SpheronSDK } from '@spheron/protocol-sdk';
+import logger from '../utils/logger.js';
+import { Network } from '../networks/index.js';
+import { getConfig } from '../config/index.js';
+import { createSimulatedBackend, withBackendRetries, SpheronBackend } from '../backend/index.js';
+import { Account } from './account-store.js';
+
+// SDK clients keyed by network and account name
+const clients = new Map<string, SpheronBackend>();
+
+/**
+ * Raised when an SDK client is asked for on a network the process does not serve
+ */
+export class NetworkNotServedError extends Error {
+  readonly network: Network;
+  readonly servedNetwork: Network;
+
+  constructor(network: Network, servedNetwork: Network) {
+    super(`This server runs on ${servedNetwork}; the Spheron SDK serves one network per process, so ${network} is not available`);
+    this.name = 'NetworkNotServedError';
+    this.network = network;
+    this.servedNetwork = servedNetwork;
+  }
+}
+
+/**
+ * Get the SDK client of an account on a network, creating it on first use.
+ * With the simulator backend the client is simulated and never leaves the process.
+ * Read-only operations are retried after transient network failures.
+ * @param account Account
+ * @param network Network the client connects to
+ * @returns SDK client signing with the account's key
+ * @throws NetworkNotServedError if a real SDK client is asked for on another network than the default one
+ */
+export function getSdkClient(account: Account, network: Network): SpheronBackend {
+  const key = `${network}:${account.name}`;
+  let client = clients.get(key);
+
+  if (!client) {
+    const { backend: { type, retry }, network: servedNetwork } = getConfig();
+    if (type !== 'simulator' && network !== servedNetwork) {
+      throw new NetworkNotServedError(network, servedNetwork);
+    }
+
+    if (type === 'simulator') {
+      logger.info('Accounts', `Initializing simulated Spheron backend for account ${account.name} on ${network}`);
+      client = withBackendRetries(createSimulatedBackend(account.address, network), retry);
+    } else {
+      logger.info('Accounts', `Initializing Spheron SDK for account ${account.name} on ${network}`);
+      client = withBackendRetries(new SpheronSDK(network, account.privateKey), retry);
+    }
+    clients.set(key, client);
+  }
+
+  return client;
+}
@@ -0,0 +1,77 @@
+/**
+ * The part of the Spheron SDK the server uses, implemented by the SDK and by the simulator
+ */
+
+/**
+ * Escrow balance of a wallet, in the token's smallest unit
+ */
+export interface BackendBalance {
+  lockedBalance: string | bigint;
+  unlockedBalance: string | bigint;
+  token: {
+    name?: string;
+    symbol?: string;
+    decimal?: number;
+  };
+}
+
+/**
+ * Lease IDs of a wallet
+ */
+export interface BackendLeaseIds {
+  activeLeaseIds: string[];
+  terminatedLeaseIds: string[];
+  allLeaseIds: string[];
+}
+
+/**
+ * Deposit or withdrawal of escrow funds
+ */
+export interface BackendTransfer {
+  token: string;
+  // Amount in whole tokens
+  amount: number;
+}
+
+/**
+ * Spheron operations used by the server. Results other than balances and lease IDs
+ * are passed through to clients, so they keep the shape returned by the SDK.
+ */
+export interface SpheronBackend {
+  escrow: {
+    getUserBalance(token: string, walletAddress?: string): Promise<BackendBalance>;
+    depositBalance(transfer: BackendTransfer): Promise<unknown>;
+    withdrawBalance(transfer: BackendTransfer): Promise<unknown>;
+  };
+  deployment: {
+    createDeployment(iclYaml: string, providerProxyUrl: string): Promise<unknown>;
+    updateDeployment(leaseId: string, iclYaml: string, providerProxyUrl: string): Promise<unknown>;
+    getDeployment(leaseId: string, providerProxyUrl: string): Promise<unknown>;
+    closeDeployment(leaseId: string): Promise<unknown>;
+  };
+  leases: {
+    getLeaseDetails(leaseId: string): Promise<unknown>;
+    getLeaseIds(address: string): Promise<BackendLeaseIds>;
+  };
+  orders: {
+    getOrderDetails(leaseId: string): Promise<unknown>;
+  };
+}
+
+export type BackendType = 'sdk' | 'simulator';
+
+// Backend operations, as named in simulated failures
+export const BACKEND_OPERATIONS = [
+  'escrow.getUserBalance',
+  'escrow.depositBalance',
+  'escrow.withdrawBalance',
+  'deployment.createDeployment',
+  'deployment.updateDeployment',
+  'deployment.getDeployment',
+  'deployment.closeDeployment',
+  'leases.getLeaseDetails',
+  'leases.getLeaseIds',
+  'orders.getOrderDetails'
+] as const;
+
+export type BackendOperation = typeof BACKEND_OPERATIONS[number];
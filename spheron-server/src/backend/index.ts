@@ -0,0 +1,27 @@
+/**
+ * Spheron backends: the live SDK and the offline simulator
+ */
+
+import {
+  BACKEND_OPERATIONS,
+  BackendBalance,
+  BackendLeaseIds,
+  BackendOperation,
+  BackendTransfer,
+  BackendType,
+  SpheronBackend
+} from './backend.js';
+import { createSimulatedBackend } from './simulator.js';
+import { withBackendRetries } from './retrying-backend.js';
+
+export {
+  BACKEND_OPERATIONS,
+  BackendBalance,
+  BackendLeaseIds,
+  BackendOperation,
+  BackendTransfer,
+  BackendType,
+  SpheronBackend,
+  createSimulatedBackend,
+  withBackendRetries
+};
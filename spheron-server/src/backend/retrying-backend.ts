@@ -0,0 +1,106 @@
+/**
+ * Backend wrapper that retries read-only operations after transient failures
+ * and reports every failure as a typed error
+ */
+
+import logger from '../utils/logger.js';
+import {
+  ChainError,
+  ProviderUnreachableError,
+  SpheronError,
+  classifyError,
+  isInsufficientFundsError,
+  isTransientError,
+  withRetry,
+  RetryOptions
+} from '../errors/index.js';
+import { SpheronBackend, BackendOperation } from './backend.js';
+
+// Operations that change nothing, so repeating them is safe
+const READ_ONLY_OPERATIONS: BackendOperation[] = [
+  'escrow.getUserBalance',
+  'deployment.getDeployment',
+  'leases.getLeaseDetails',
+  'leases.getLeaseIds',
+  'orders.getOrderDetails'
+];
+
+/**
+ * Map a backend failure to a typed error
+ * @param operation Backend operation that failed
+ * @param error Thrown value
+ * @returns Typed error
+ */
+function toBackendError(operation: BackendOperation, error: unknown): SpheronError {
+  if (error instanceof SpheronError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const readOnly = READ_ONLY_OPERATIONS.includes(operation);
+
+  if (isTransientError(error)) {
+    // The deployment status comes from the provider through the provider proxy
+    if (operation === 'deployment.getDeployment') {
+      return new ProviderUnreachableError(`${operation} failed: ${message}`, { cause: error });
+    }
+    return new ChainError(`${operation} failed: ${message}`, {
+      retryable: readOnly,
+      hint: readOnly
+        ? 'A network failure interrupted the query. Try again shortly, or run diagnostics if it persists.'
+        : 'The transaction may have been submitted before the connection failed. Check list_leases and fetch_balance before repeating it.',
+      data: { operation },
+      cause: error
+    });
+  }
+  if (isInsufficientFundsError(error)) {
+    return classifyError(error);
+  }
+
+  return new ChainError(`${operation} failed: ${message}`, { data: { operation }, cause: error });
+}
+
+/**
+ * Wrap a backend. Read-only operations are retried with exponential backoff after
+ * transient failures; operations that move funds or create leases are never retried.
+ * @param backend Backend to wrap
+ * @param options Retry settings
+ * @returns Backend with the same operations
+ */
+export function withBackendRetries(backend: SpheronBackend, options: RetryOptions): SpheronBackend {
+  const call = <T>(operation: BackendOperation, fn: () => Promise<T>): Promise<T> => {
+    const attempt = READ_ONLY_OPERATIONS.includes(operation)
+      ? withRetry(fn, options, (error, retry, delayMs) => logger.warn(
+        'Backend',
+        `${operation} failed (${error instanceof Error ? error.message : String(error)}), retry ${retry} of ${options.attempts - 1} in ${delayMs}ms`
+      ))
+      : fn();
+    return attempt.catch(error => {
+      throw toBackendError(operation, error);
+    });
+  };
+
+  return {
+    escrow: {
+      getUserBalance: (token, walletAddress) => call('escrow.getUserBalance', () => backend.escrow.getUserBalance(token, walletAddress)),
+      depositBalance: transfer => call('escrow.depositBalance', () => backend.escrow.depositBalance(transfer)),
+      withdrawBalance: transfer => call('escrow.withdrawBalance', () => backend.escrow.withdrawBalance(transfer))
+    },
+    deployment: {
+      createDeployment: (iclYaml, providerProxyUrl) =>
+        call('deployment.createDeployment', () => backend.deployment.createDeployment(iclYaml, providerProxyUrl)),
+      updateDeployment: (leaseId, iclYaml, providerProxyUrl) =>
+        call('deployment.updateDeployment', () => backend.deployment.updateDeployment(leaseId, iclYaml, providerProxyUrl)),
+      getDeployment: (leaseId, providerProxyUrl) =>
+        call('deployment.getDeployment', () => backend.deployment.getDeployment(leaseId, providerProxyUrl)),
+      closeDeployment: leaseId => call('deployment.closeDeployment', () => backend.deployment.closeDeployment(leaseId))
+    },
+    leases: {
+      getLeaseDetails: leaseId => call('leases.getLeaseDetails', () => backend.leases.getLeaseDetails(leaseId)),
+      getLeaseIds: address => call('leases.getLeaseIds', () => backend.leases.getLeaseIds(address))
+    },
+    orders: {
+      getOrderDetails: leaseId => call('orders.getOrderDetails', () => backend.orders.getOrderDetails(leaseId))
+    }
+  };
+}
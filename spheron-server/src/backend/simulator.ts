@@ -0,0 +1,440 @@
+/**
+ * Offline simulation of the Spheron network, for demos and development without a funded wallet
+ * or network access. Lease IDs, provider assignments and readiness are deterministic; balances
+ * start at the configured amount and move with deposits, withdrawals and deployments.
+ */
+
+import { createHash } from 'crypto';
+import * as yaml from 'js-yaml';
+import { getConfig } from '../config/index.js';
+import { Network } from '../networks/index.js';
+import { estimateYamlCost, CostEstimate } from '../pricing/index.js';
+import { getToken, TokenAmount, TokenInfo } from '../tokens/index.js';
+import { BLOCKS_PER_HOUR } from '../leases/index.js';
+import { BackendOperation, BackendTransfer, SpheronBackend } from './backend.js';
+
+// Providers leases are assigned to, in turn
+const SIMULATED_PROVIDERS = [
+  { address: '0x5000000000000000000000000000000000000001', host: 'provider-1.simulator.spheron.local' },
+  { address: '0x5000000000000000000000000000000000000002', host: 'provider-2.simulator.spheron.local' },
+  { address: '0x5000000000000000000000000000000000000003', host: 'provider-3.simulator.spheron.local' }
+];
+
+// First external port of forwarded ports; each lease gets a block of ten
+const EXTERNAL_PORT_BASE = 30000;
+
+// Decimals of lease prices
+const PRICE_DECIMALS = 18;
+
+/**
+ * A service of a simulated deployment
+ */
+interface SimulatedService {
+  name: string;
+  image: string;
+  count: number;
+  ports: number[];
+}
+
+/**
+ * A simulated lease with its order and deployment
+ */
+interface SimulatedLease {
+  leaseId: string;
+  tenantAddress: string;
+  provider: typeof SIMULATED_PROVIDERS[number];
+  // Price per block, in units of 10^-18 of the token
+  acceptedPrice: number;
+  startTime: number;
+  endTime: number;
+  state: 'active' | 'terminated';
+  name: string;
+  region: string;
+  token: TokenInfo;
+  specs: string;
+  services: SimulatedService[];
+  // Escrow funds locked for the lease, in the token's smallest unit
+  locked: bigint;
+  // Status checks since the deployment was created or last updated
+  polls: number;
+}
+
+/**
+ * Escrow balance of one wallet and token, in the token's smallest unit
+ */
+interface SimulatedBalance {
+  locked: bigint;
+  unlocked: bigint;
+}
+
+/**
+ * Simulated state of one network, shared by all accounts
+ */
+interface NetworkState {
+  leases: Map<string, SimulatedLease>;
+  // Keyed by lower-case wallet address and token symbol
+  balances: Map<string, SimulatedBalance>;
+  // Number of calls of each operation, for injected failures
+  calls: Map<BackendOperation, number>;
+  transactions: number;
+}
+
+const networks = new Map<Network, NetworkState>();
+
+/**
+ * Get the simulated state of a network, creating it on first use
+ */
+function getNetworkState(network: Network): NetworkState {
+  let state = networks.get(network);
+  if (!state) {
+    state = { leases: new Map(), balances: new Map(), calls: new Map(), transactions: 0 };
+    networks.set(network, state);
+  }
+  return state;
+}
+
+/**
+ * Get the escrow balance of a wallet, starting it at the configured initial balance
+ */
+function getBalance(state: NetworkState, address: string, token: TokenInfo): SimulatedBalance {
+  const key = `${address.toLowerCase()}:${token.symbol}`;
+  let balance = state.balances.get(key);
+  if (!balance) {
+    const initial = TokenAmount.fromDecimal(getConfig().backend.simulator.initialBalance, token.decimals, 'down');
+    balance = { locked: 0n, unlocked: initial.raw };
+    state.balances.set(key, balance);
+  }
+  return balance;
+}
+
+/**
+ * Run an operation, failing it when a configured failure matches the call
+ * @param state Network state
+ * @param operation Operation name
+ * @param run Operation
+ * @returns Operation result
+ */
+async function simulate<T>(state: NetworkState, operation: BackendOperation, run: () => T): Promise<T> {
+  const call = (state.calls.get(operation) || 0) + 1;
+  state.calls.set(operation, call);
+
+  const failure = getConfig().backend.simulator.failures
+    .find(item => item.operation === operation && (!item.calls || item.calls.includes(call)));
+  if (failure) {
+    throw new Error(failure.message || `Simulated failure of ${operation} (call ${call})`);
+  }
+
+  return run();
+}
+
+/**
+ * Create a deterministic transaction receipt
+ */
+function createReceipt(state: NetworkState, network: Network): { hash: string; status: number } {
+  state.transactions += 1;
+  const hash = createHash('sha256').update(`${network}:${state.transactions}`).digest('hex');
+  return { hash: `0x${hash}`, status: 1 };
+}
+
+/**
+ * Terminate a lease whose paid duration has passed; its locked funds have been spent
+ */
+function settleLease(state: NetworkState, lease: SimulatedLease): void {
+  if (lease.state === 'active' && Date.now() / 1000 >= lease.endTime) {
+    lease.state = 'terminated';
+    getBalance(state, lease.tenantAddress, lease.token).locked -= lease.locked;
+    lease.locked = 0n;
+  }
+}
+
+/**
+ * Get a lease, settling it first
+ */
+function getLease(state: NetworkState, leaseId: string): SimulatedLease {
+  const lease = state.leases.get(String(leaseId));
+  if (!lease) {
+    throw new Error(`Lease ${leaseId} does not exist`);
+  }
+  settleLease(state, lease);
+  return lease;
+}
+
+/**
+ * Get an active lease of a wallet
+ */
+function getOwnActiveLease(state: NetworkState, leaseId: string, walletAddress: string): SimulatedLease {
+  const lease = getLease(state, leaseId);
+  if (lease.tenantAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+    throw new Error(`Lease ${leaseId} belongs to another wallet`);
+  }
+  if (lease.state !== 'active') {
+    throw new Error(`Lease ${leaseId} is not active`);
+  }
+  return lease;
+}
+
+/**
+ * Read the order and services of an ICL YAML configuration
+ */
+function parseDeployment(iclYaml: string, network: Network): {
+  cost: CostEstimate;
+  token: TokenInfo;
+  name: string;
+  region: string;
+  specs: string;
+  services: SimulatedService[];
+} {
+  let cost: CostEstimate;
+  try {
+    cost = estimateYamlCost(iclYaml);
+  } catch {
+    throw new Error('Please verify YAML format');
+  }
+
+  const config = yaml.load(iclYaml) as any;
+  const services: SimulatedService[] = Object.entries<any>(config.services || {}).map(([name, service]) => ({
+    name,
+    image: String(service?.image || ''),
+    count: cost.services.find(item => item.service === name)?.count ?? 1,
+    ports: (service?.expose || []).map((port: any) => Number(port.as || port.port)).filter(Number.isFinite)
+  }));
+
+  // Order specs encode GPUs as "g:{a:[{k:vendor/<vendor>/model/<model>,v:true}],u:<units>}"
+  const specs = cost.services
+    .filter(item => item.gpu)
+    .map(item => `g:{a:[{k:vendor/nvidia/model/${item.gpu!.model},v:true}],u:${item.gpu!.units}}`)
+    .join(',');
+
+  return {
+    cost,
+    token: getToken(cost.token, network),
+    name: String(config.profiles?.name || services[0]?.name || 'deployment'),
+    region: Object.keys(config.profiles?.placement || {})[0] || '',
+    specs,
+    services
+  };
+}
+
+/**
+ * Lock the funds of a deployment, or release them when the amount is negative
+ */
+function lockFunds(state: NetworkState, address: string, token: TokenInfo, amount: bigint): void {
+  const balance = getBalance(state, address, token);
+  if (balance.unlocked < amount) {
+    const required = TokenAmount.fromRaw(amount, token.decimals);
+    const available = TokenAmount.fromRaw(balance.unlocked, token.decimals);
+    throw new Error(`Insufficient ${token.symbol} balance: ${required} required, ${available} available`);
+  }
+  balance.unlocked -= amount;
+  balance.locked += amount;
+}
+
+/**
+ * Apply an ICL configuration to a lease: its price, end time, order and services
+ */
+function applyDeployment(lease: SimulatedLease, deployment: ReturnType<typeof parseDeployment>): void {
+  lease.acceptedPrice = Math.round(deployment.cost.hourlyCost / BLOCKS_PER_HOUR * 10 ** PRICE_DECIMALS);
+  lease.endTime = lease.startTime + Math.round(deployment.cost.durationHours * 3600);
+  lease.name = deployment.name;
+  lease.region = deployment.region;
+  lease.specs = deployment.specs;
+  lease.services = deployment.services;
+  lease.polls = 0;
+}
+
+/**
+ * Build the provider's status of a deployment, as returned by deployment.getDeployment
+ */
+function getDeploymentStatus(lease: SimulatedLease): unknown {
+  const { readyAfterPolls, failingImages } = getConfig().backend.simulator;
+  lease.polls += 1;
+  const running = lease.polls > readyAfterPolls;
+
+  const services: Record<string, unknown> = {};
+  const forwardedPorts: Record<string, unknown[]> = {};
+
+  lease.services.forEach((service, serviceIndex) => {
+    const failing = failingImages.includes(service.image);
+    const ready = running && !failing;
+    const state = failing
+      ? { waiting: { reason: 'ImagePullBackOff', message: `Back-off pulling image "${service.image}"` } }
+      : ready
+        ? { running: { startedAt: new Date(lease.startTime * 1000).toISOString() } }
+        : { waiting: { reason: 'ContainerCreating', message: '' } };
+
+    services[service.name] = {
+      name: service.name,
+      available: ready ? service.count : 0,
+      total: service.count,
+      uris: null,
+      replicas: service.count,
+      ready_replicas: ready ? service.count : 0,
+      available_replicas: ready ? service.count : 0,
+      container_statuses: [{ name: service.name, image: service.image, state, ready, restartCount: 0, started: ready }]
+    };
+
+    if (ready && service.ports.length > 0) {
+      forwardedPorts[service.name] = service.ports.map((port, portIndex) => ({
+        host: lease.provider.host,
+        port,
+        externalPort: EXTERNAL_PORT_BASE + Number(lease.leaseId) * 10 + serviceIndex * service.ports.length + portIndex,
+        proto: 'TCP',
+        name: service.name
+      }));
+    }
+  });
+
+  return { services, forwarded_ports: forwardedPorts, ips: null };
+}
+
+/**
+ * Create a simulated backend for a wallet on a network
+ * @param walletAddress Address of the account the backend acts as
+ * @param network Simulated network
+ * @returns Backend
+ */
+export function createSimulatedBackend(walletAddress: string, network: Network): SpheronBackend {
+  const state = getNetworkState(network);
+
+  const transfer = (operation: BackendOperation, { token: symbol, amount }: BackendTransfer, deposit: boolean) =>
+    simulate(state, operation, () => {
+      const token = getToken(symbol, network);
+      const balance = getBalance(state, walletAddress, token);
+      const raw = TokenAmount.fromDecimal(amount, token.decimals, 'down').raw;
+      if (!deposit && balance.unlocked < raw) {
+        throw new Error(`Insufficient unlocked ${token.symbol} balance to withdraw ${amount}`);
+      }
+      balance.unlocked += deposit ? raw : -raw;
+      return createReceipt(state, network);
+    });
+
+  return {
+    escrow: {
+      getUserBalance: (symbol, address) => simulate(state, 'escrow.getUserBalance', () => {
+        const token = getToken(symbol, network);
+        const balance = getBalance(state, address || walletAddress, token);
+        return {
+          lockedBalance: balance.locked.toString(),
+          unlockedBalance: balance.unlocked.toString(),
+          token: { name: token.name, symbol: token.symbol, decimal: token.decimals }
+        };
+      }),
+      depositBalance: data => transfer('escrow.depositBalance', data, true),
+      withdrawBalance: data => transfer('escrow.withdrawBalance', data, false)
+    },
+
+    deployment: {
+      createDeployment: iclYaml => simulate(state, 'deployment.createDeployment', () => {
+        const deployment = parseDeployment(iclYaml, network);
+        const locked = TokenAmount.fromDecimal(deployment.cost.totalCost, deployment.token.decimals, 'up').raw;
+        lockFunds(state, walletAddress, deployment.token, locked);
+
+        const leaseId = String(state.leases.size + 1);
+        const lease: SimulatedLease = {
+          leaseId,
+          tenantAddress: walletAddress,
+          provider: SIMULATED_PROVIDERS[state.leases.size % SIMULATED_PROVIDERS.length],
+          acceptedPrice: 0,
+          startTime: Math.floor(Date.now() / 1000),
+          endTime: 0,
+          state: 'active',
+          name: '',
+          region: '',
+          token: deployment.token,
+          specs: '',
+          services: [],
+          locked,
+          polls: 0
+        };
+        applyDeployment(lease, deployment);
+        state.leases.set(leaseId, lease);
+
+        return { leaseId, transaction: createReceipt(state, network) };
+      }),
+
+      updateDeployment: (leaseId, iclYaml) => simulate(state, 'deployment.updateDeployment', () => {
+        const lease = getOwnActiveLease(state, leaseId, walletAddress);
+        const deployment = parseDeployment(iclYaml, network);
+        if (deployment.token.symbol !== lease.token.symbol) {
+          throw new Error(`Lease ${leaseId} is paid in ${lease.token.symbol}`);
+        }
+
+        const locked = TokenAmount.fromDecimal(deployment.cost.totalCost, lease.token.decimals, 'up').raw;
+        lockFunds(state, walletAddress, lease.token, locked - lease.locked);
+        lease.locked = locked;
+        applyDeployment(lease, deployment);
+
+        return { orderId: lease.leaseId, providerAddress: lease.provider.address };
+      }),
+
+      getDeployment: leaseId => simulate(state, 'deployment.getDeployment', () =>
+        getDeploymentStatus(getOwnActiveLease(state, leaseId, walletAddress))),
+
+      closeDeployment: leaseId => simulate(state, 'deployment.closeDeployment', () => {
+        const lease = getOwnActiveLease(state, leaseId, walletAddress);
+        const balance = getBalance(state, walletAddress, lease.token);
+
+        // Refund the funds locked for the time the lease will no longer run
+        const now = Math.floor(Date.now() / 1000);
+        const remaining = BigInt(Math.max(0, lease.endTime - now));
+        const total = BigInt(Math.max(1, lease.endTime - lease.startTime));
+        const refund = lease.locked * remaining / total;
+        balance.locked -= lease.locked;
+        balance.unlocked += refund;
+
+        lease.locked = 0n;
+        lease.state = 'terminated';
+        lease.endTime = now;
+
+        return createReceipt(state, network);
+      })
+    },
+
+    leases: {
+      getLeaseDetails: leaseId => simulate(state, 'leases.getLeaseDetails', () => {
+        const lease = getLease(state, leaseId);
+        return {
+          leaseId: lease.leaseId,
+          fizzId: '0',
+          requestId: lease.leaseId,
+          acceptedPrice: lease.acceptedPrice,
+          providerAddress: lease.provider.address,
+          tenantAddress: lease.tenantAddress,
+          startBlock: String(lease.startTime),
+          startTime: lease.startTime,
+          endTime: lease.endTime,
+          state: lease.state
+        };
+      }),
+
+      getLeaseIds: address => simulate(state, 'leases.getLeaseIds', () => {
+        const owned = [...state.leases.values()]
+          .filter(lease => lease.tenantAddress.toLowerCase() === address.toLowerCase());
+        owned.forEach(lease => settleLease(state, lease));
+
+        return {
+          activeLeaseIds: owned.filter(lease => lease.state === 'active').map(lease => lease.leaseId),
+          terminatedLeaseIds: owned.filter(lease => lease.state === 'terminated').map(lease => lease.leaseId),
+          allLeaseIds: owned.map(lease => lease.leaseId)
+        };
+      })
+    },
+
+    orders: {
+      getOrderDetails: leaseId => simulate(state, 'orders.getOrderDetails', () => {
+        const lease = getLease(state, leaseId);
+        return {
+          id: Number(lease.leaseId),
+          name: lease.name,
+          region: lease.region,
+          maxPrice: lease.acceptedPrice,
+          numOfBlocks: Math.round((lease.endTime - lease.startTime) / 3600 * BLOCKS_PER_HOUR),
+          token: { symbol: lease.token.symbol, decimal: lease.token.decimals, address: lease.token.address || '' },
+          creator: lease.tenantAddress,
+          state: lease.state === 'active' ? 'matched' : 'closed',
+          specs: { specs: lease.specs }
+        };
+      })
+    }
+  };
+}
@@ -0,0 +1,454 @@
+/**
+ * Converter of docker-compose files into extracted parameters, which the YAML
+ * generator turns into Spheron ICL
+ */
+
+import { LineCounter, parseDocument } from 'yaml';
+import {
+  ExtractedParams,
+  ServiceParams,
+  DEFAULT_PARAMS,
+  DEFAULT_SERVICE_PARAMS
+} from '../natural-language-processor/index.js';
+
+/**
+ * A compose feature that was left out or converted approximately
+ */
+export interface ComposeNote {
+  // Compose service, or null for top-level features
+  service: string | null;
+  feature: string;
+  message: string;
+}
+
+/**
+ * Result of converting a compose file
+ */
+export interface ComposeConversion {
+  params: ExtractedParams;
+  // Features with no ICL equivalent, left out
+  unsupported: ComposeNote[];
+  // Features converted to something close
+  approximated: ComposeNote[];
+}
+
+/**
+ * Options of a conversion
+ */
+export interface ComposeOptions {
+  duration?: string;
+  region?: string;
+  // GPU model for services that reserve GPUs, since compose does not name one
+  gpuModel?: string;
+}
+
+/**
+ * Thrown when a compose file cannot be converted at all
+ */
+export class ComposeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComposeError';
+  }
+}
+
+// Service keys converted, or converted approximately
+const HANDLED_KEYS = new Set([
+  'image', 'ports', 'expose', 'environment', 'env_file', 'command', 'entrypoint',
+  'deploy', 'cpus', 'mem_limit', 'runtime', 'volumes', 'depends_on', 'links',
+  'restart', 'container_name', 'build'
+]);
+
+// Top-level keys with no ICL equivalent
+const UNSUPPORTED_TOP_LEVEL_KEYS = ['networks', 'volumes', 'secrets', 'configs'];
+
+// Images of databases and caches, which are not chosen as the main service while another service publishes ports
+const DATA_STORE_IMAGE_REGEX = /^(postgres|postgresql|postgis|mysql|mariadb|mongo|mongodb|redis|valkey|memcached|cassandra|couchdb|elasticsearch|opensearch|clickhouse|rabbitmq)$/;
+
+type Ports = NonNullable<ServiceParams['ports']>;
+
+/**
+ * Collects notes while a compose file is converted
+ */
+class NoteCollector {
+  readonly unsupported: ComposeNote[] = [];
+  readonly approximated: ComposeNote[] = [];
+
+  unsupportedFeature(service: string | null, feature: string, message: string): void {
+    this.unsupported.push({ service, feature, message });
+  }
+
+  approximatedFeature(service: string | null, feature: string, message: string): void {
+    this.approximated.push({ service, feature, message });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether an image is a database or cache, ignoring its registry, namespace and tag
+ * @param image Image reference (e.g. "postgres:16", "docker.io/bitnami/redis:7.2")
+ * @returns True if the image is a data store
+ */
+function isDataStoreImage(image: string): boolean {
+  const name = image.split('@')[0].split('/').pop() || '';
+  return DATA_STORE_IMAGE_REGEX.test(name.split(':')[0].toLowerCase());
+}
+
+/**
+ * Split a shell command string into words, honouring single and double quotes
+ * @param command Command string
+ * @returns Words
+ */
+function splitCommand(command: string): string[] {
+  const words: string[] = [];
+  for (const match of command.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g)) {
+    words.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] ?? match[3]);
+  }
+  return words;
+}
+
+/**
+ * Convert a compose byte size (e.g. "512m", "2g", "1.5GB") into an ICL size
+ * @param size Compose size
+ * @returns ICL size (e.g. "512Mi", "2Gi"), or null if it cannot be read
+ */
+function convertSize(size: unknown): string | null {
+  const match = String(size).trim().match(/^(\d+(?:\.\d+)?)\s*([bkmgt]?)b?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const exponents: Record<string, number> = { '': 0, b: 0, k: 1, m: 2, g: 3, t: 4 };
+  const bytes = parseFloat(match[1]) * Math.pow(1024, exponents[match[2].toLowerCase()]);
+  const mi = Math.max(1, Math.ceil(bytes / (1024 * 1024)));
+
+  return mi % 1024 === 0 ? `${mi / 1024}Gi` : `${mi}Mi`;
+}
+
+/**
+ * Convert the published ports of a service
+ */
+function convertPorts(service: string, ports: unknown, notes: NoteCollector): Ports {
+  const converted: Ports = [];
+  if (!Array.isArray(ports)) {
+    return converted;
+  }
+
+  for (const entry of ports) {
+    let target: number;
+    let published: number | undefined;
+    let protocol = 'tcp';
+
+    if (isObject(entry)) {
+      target = Number(entry.target);
+      published = entry.published !== undefined ? Number(entry.published) : undefined;
+      protocol = String(entry.protocol || 'tcp');
+      if (entry.host_ip) {
+        notes.approximatedFeature(service, 'ports', `Port ${entry.target} is bound to ${entry.host_ip} in compose; it is exposed publicly`);
+      }
+    } else {
+      const text = String(entry);
+      const [mapping, proto] = text.split('/');
+      protocol = proto || 'tcp';
+      const parts = mapping.split(':');
+
+      if (parts.some(part => part.includes('-'))) {
+        notes.unsupportedFeature(service, 'ports', `Port range "${text}" is not supported; expose each port separately`);
+        continue;
+      }
+      if (parts.length === 3) {
+        notes.approximatedFeature(service, 'ports', `Port "${text}" is bound to ${parts[0]} in compose; it is exposed publicly`);
+      }
+      target = Number(parts[parts.length - 1]);
+      published = parts.length > 1 && parts[parts.length - 2] !== '' ? Number(parts[parts.length - 2]) : undefined;
+    }
+
+    if (!Number.isInteger(target) || target < 1 || target > 65535) {
+      notes.unsupportedFeature(service, 'ports', `Port "${isObject(entry) ? JSON.stringify(entry) : entry}" could not be read`);
+      continue;
+    }
+    if (protocol.toLowerCase() !== 'tcp') {
+      notes.unsupportedFeature(service, 'ports', `Port ${target}/${protocol} is left out; only TCP ports are converted`);
+      continue;
+    }
+    if (published === undefined) {
+      notes.approximatedFeature(service, 'ports', `Port ${target} has no published port in compose; it is exposed as ${target}`);
+    }
+
+    converted.push({ port: target, as: published ?? target, global: true });
+  }
+
+  return converted;
+}
+
+/**
+ * Convert the environment of a service
+ */
+function convertEnvironment(service: string, definition: Record<string, any>, notes: NoteCollector): Record<string, string> {
+  const env: Record<string, string> = {};
+  const environment = definition.environment;
+
+  const entries: Array<[string, unknown]> = Array.isArray(environment)
+    ? environment.map(item => {
+      const text = String(item);
+      const index = text.indexOf('=');
+      return index >= 0 ? [text.slice(0, index), text.slice(index + 1)] : [text, undefined];
+    })
+    : isObject(environment) ? Object.entries(environment) : [];
+
+  for (const [name, value] of entries) {
+    if (value === undefined || value === null) {
+      notes.unsupportedFeature(service, 'environment', `${name} takes its value from the host environment in compose; set it explicitly`);
+      continue;
+    }
+    if (/\$\{?[A-Za-z_]/.test(String(value))) {
+      notes.approximatedFeature(service, 'environment', `${name} uses variable substitution, which is not applied; the value is copied as written`);
+    }
+    env[name] = String(value);
+  }
+
+  if (definition.env_file !== undefined) {
+    notes.unsupportedFeature(service, 'env_file', 'env_file is not read; add its variables to environment');
+  }
+
+  return env;
+}
+
+/**
+ * Convert the CPU, memory and GPU limits and reservations of a service
+ */
+function convertResources(
+  service: string,
+  definition: Record<string, any>,
+  options: ComposeOptions,
+  notes: NoteCollector
+): Pick<ServiceParams, 'cpu' | 'memory' | 'gpu' | 'count'> {
+  const resources = isObject(definition.deploy?.resources) ? definition.deploy.resources : {};
+  const limits = isObject(resources.limits) ? resources.limits : {};
+  const reservations = isObject(resources.reservations) ? resources.reservations : {};
+  const converted: Pick<ServiceParams, 'cpu' | 'memory' | 'gpu' | 'count'> = {};
+
+  const cpus = limits.cpus ?? definition.cpus ?? reservations.cpus;
+  if (cpus !== undefined && Number(cpus) > 0) {
+    converted.cpu = Number(cpus);
+  } else {
+    converted.cpu = DEFAULT_SERVICE_PARAMS.cpu;
+    notes.approximatedFeature(service, 'deploy.resources', `No CPU limit; using ${converted.cpu} CPU`);
+  }
+
+  const memory = limits.memory ?? definition.mem_limit ?? reservations.memory;
+  const size = memory !== undefined ? convertSize(memory) : null;
+  if (size) {
+    converted.memory = size;
+  } else {
+    converted.memory = DEFAULT_SERVICE_PARAMS.memory;
+    notes.approximatedFeature(
+      service,
+      'deploy.resources',
+      memory !== undefined ? `Memory "${memory}" could not be read; using ${converted.memory}` : `No memory limit; using ${converted.memory}`
+    );
+  }
+
+  const gpuModel = options.gpuModel || DEFAULT_PARAMS.gpu?.model || 'rtx6000-ada';
+  const devices: unknown[] = Array.isArray(reservations.devices) ? reservations.devices : [];
+  const gpuDevices = devices.filter((device): device is Record<string, any> =>
+    isObject(device) && Array.isArray(device.capabilities) && device.capabilities.includes('gpu'));
+
+  if (gpuDevices.length > 0) {
+    let units = 0;
+    for (const device of gpuDevices) {
+      if (Array.isArray(device.device_ids)) {
+        units += device.device_ids.length;
+        notes.approximatedFeature(service, 'deploy.resources.reservations.devices', `GPU device_ids are not supported; ${device.device_ids.length} GPU(s) of any ID are requested`);
+      } else if (device.count === 'all' || device.count === undefined) {
+        units += 1;
+        notes.approximatedFeature(service, 'deploy.resources.reservations.devices', 'GPU count "all" is converted to 1 GPU');
+      } else {
+        units += Number(device.count);
+      }
+    }
+    converted.gpu = { units, model: gpuModel };
+    if (!options.gpuModel) {
+      notes.approximatedFeature(service, 'deploy.resources.reservations.devices', `Compose does not name a GPU model; using ${gpuModel}`);
+    }
+  } else if (definition.runtime === 'nvidia') {
+    converted.gpu = { units: 1, model: gpuModel };
+    notes.approximatedFeature(service, 'runtime', `runtime: nvidia is converted to 1 ${gpuModel} GPU`);
+  }
+
+  if (definition.deploy?.replicas !== undefined) {
+    converted.count = Number(definition.deploy.replicas);
+  }
+  for (const key of Object.keys(isObject(definition.deploy) ? definition.deploy : {})) {
+    if (key !== 'resources' && key !== 'replicas') {
+      notes.unsupportedFeature(service, `deploy.${key}`, `deploy.${key} is not supported`);
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Describe the volumes of a service. ICL storage of the converted services is not persistent.
+ */
+function noteVolumes(service: string, volumes: unknown, notes: NoteCollector): void {
+  if (!Array.isArray(volumes)) {
+    return;
+  }
+
+  for (const volume of volumes) {
+    const source = isObject(volume) ? volume.source : String(volume).split(':')[0];
+    const target = isObject(volume) ? volume.target : String(volume).split(':')[1];
+
+    if (typeof source === 'string' && /^[./~]/.test(source)) {
+      notes.unsupportedFeature(service, 'volumes', `Bind mount ${source} is left out; providers cannot reach host files. Copy the files into the image instead`);
+    } else {
+      notes.approximatedFeature(service, 'volumes', `Volume ${source || '(anonymous)'}${target ? ` at ${target}` : ''} is converted to the service's ephemeral storage, which is lost when the lease closes`);
+    }
+  }
+}
+
+/**
+ * Convert a docker-compose file into extracted parameters. The main service is the
+ * first service that publishes ports, preferring one that is not a database or
+ * cache; the others are deployed next to it.
+ * @param composeContent docker-compose YAML
+ * @param options Duration, region and GPU model of the deployment
+ * @returns Extracted parameters, with the features that were left out or approximated
+ */
+export function convertCompose(composeContent: string, options: ComposeOptions = {}): ComposeConversion {
+  // Errors give the position only: the parser's code frame would quote the file
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(composeContent, { merge: true, lineCounter, prettyErrors: false });
+  if (doc.errors.length > 0) {
+    const { line, col } = lineCounter.linePos(doc.errors[0].pos[0]);
+    throw new ComposeError(`Invalid compose YAML at line ${line}, column ${col}: ${doc.errors[0].message}`);
+  }
+
+  let compose: any;
+  try {
+    compose = doc.toJS();
+  } catch (error) {
+    throw new ComposeError(`Invalid compose YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(compose) || !isObject(compose.services) || Object.keys(compose.services).length === 0) {
+    throw new ComposeError('The compose file has no services');
+  }
+
+  const notes = new NoteCollector();
+  for (const key of UNSUPPORTED_TOP_LEVEL_KEYS) {
+    if (compose[key] !== undefined) {
+      notes.unsupportedFeature(null, key, key === 'volumes'
+        ? 'Named volumes are not created; services get ephemeral storage'
+        : `Top-level ${key} are not supported`);
+    }
+  }
+
+  const services: Array<ServiceParams & { name: string }> = [];
+  const internalPorts = new Map<string, number[]>();
+  const dependents = new Map<string, string[]>();
+
+  for (const [name, definition] of Object.entries<any>(compose.services)) {
+    if (!isObject(definition)) {
+      notes.unsupportedFeature(name, 'service', 'The service definition is not a mapping; it is left out');
+      continue;
+    }
+    if (typeof definition.image !== 'string' || definition.image === '') {
+      notes.unsupportedFeature(name, 'build', 'The service has no image, and images are not built; push the image to a registry and set image');
+      continue;
+    }
+    if (definition.build !== undefined) {
+      notes.approximatedFeature(name, 'build', `build is ignored; the image ${definition.image} is pulled instead`);
+    }
+
+    for (const key of Object.keys(definition)) {
+      if (!HANDLED_KEYS.has(key)) {
+        notes.unsupportedFeature(name, key, `${key} is not supported`);
+      }
+    }
+    if (definition.restart !== undefined) {
+      notes.approximatedFeature(name, 'restart', 'restart is ignored; providers restart containers that exit');
+    }
+
+    const service: ServiceParams & { name: string } = {
+      name,
+      image: definition.image,
+      pullPolicy: 'IfNotPresent',
+      ports: convertPorts(name, definition.ports, notes),
+      env: convertEnvironment(name, definition, notes),
+      storage: DEFAULT_SERVICE_PARAMS.storage,
+      count: 1,
+      ...convertResources(name, definition, options, notes)
+    };
+
+    if (definition.entrypoint !== undefined) {
+      service.command = Array.isArray(definition.entrypoint) ? definition.entrypoint.map(String) : splitCommand(String(definition.entrypoint));
+    }
+    if (definition.command !== undefined) {
+      service.args = Array.isArray(definition.command) ? definition.command.map(String) : splitCommand(String(definition.command));
+    }
+    noteVolumes(name, definition.volumes, notes);
+
+    internalPorts.set(name, (Array.isArray(definition.expose) ? definition.expose : [])
+      .map((port: unknown) => Number(String(port).split('/')[0]))
+      .filter((port: number) => Number.isInteger(port) && port > 0));
+
+    const dependencies = [
+      ...(Array.isArray(definition.depends_on) ? definition.depends_on : Object.keys(isObject(definition.depends_on) ? definition.depends_on : {})),
+      ...(Array.isArray(definition.links) ? definition.links.map((link: unknown) => String(link).split(':')[0]) : [])
+    ];
+    for (const dependency of dependencies) {
+      dependents.set(dependency, [...(dependents.get(dependency) || []), name]);
+    }
+    if (dependencies.length > 0) {
+      notes.approximatedFeature(name, 'depends_on', 'Start order is not guaranteed; the service must retry until its dependencies are up');
+    }
+
+    services.push(service);
+  }
+
+  if (services.length === 0) {
+    throw new ComposeError('None of the compose services can be converted; each needs an image');
+  }
+
+  // Services reach each other only through ports exposed to them
+  const names = services.map(service => service.name);
+  for (const service of services) {
+    const reachableFrom = (dependents.get(service.name) || []).filter(name => names.includes(name));
+    const clients = reachableFrom.length > 0 ? reachableFrom : names.filter(name => name !== service.name);
+    const published = new Set((service.ports || []).map(port => port.port));
+
+    // Published ports stay public, and are also exposed to the services that depend on this one
+    if (reachableFrom.length > 0) {
+      service.ports = (service.ports || []).map(port => ({ ...port, services: reachableFrom }));
+    }
+
+    for (const port of internalPorts.get(service.name) || []) {
+      if (!published.has(port) && clients.length > 0) {
+        service.ports = [...(service.ports || []), { port, as: port, global: false, services: clients }];
+      }
+    }
+    if (reachableFrom.length > 0 && (internalPorts.get(service.name) || []).length === 0 && (service.ports || []).length === 0) {
+      notes.approximatedFeature(service.name, 'expose', `${reachableFrom.join(', ')} depend(s) on this service, but it lists no ports in expose, so they cannot reach it; add them to expose`);
+    }
+  }
+
+  const isPublic = (service: ServiceParams) => (service.ports || []).some(port => port.global !== false);
+  const appIndex = services.findIndex(service => isPublic(service) && !isDataStoreImage(service.image || ''));
+  const mainIndex = appIndex >= 0 ? appIndex : Math.max(0, services.findIndex(isPublic));
+  const [main] = services.splice(mainIndex, 1);
+
+  return {
+    params: {
+      ...main,
+      duration: options.duration,
+      region: options.region,
+      services
+    },
+    unsupported: notes.unsupported,
+    approximated: notes.approximated
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Import of docker-compose files
+ */
+
+import {
+  convertCompose,
+  ComposeError,
+  ComposeNote,
+  ComposeConversion,
+  ComposeOptions
+} from './compose-converter.js';
+
+export {
+  convertCompose,
+  ComposeError,
+  ComposeNote,
+  ComposeConversion,
+  ComposeOptions
+};
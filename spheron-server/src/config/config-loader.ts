@@ -0,0 +1,231 @@
+/**
+ * Loads the server configuration from a config file and environment variable overrides
+ */
+
+import pkg from 'fs-extra';
+const { existsSync, readFileSync } = pkg;
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { validateSchema, ValidationIssue } from '../tools/index.js';
+import {
+  CONFIG_SCHEMA,
+  DEFAULT_CONFIG,
+  ENV_OVERRIDES,
+  SECRET_SETTINGS,
+  EnvOverride,
+  ServerConfig
+} from './config-schema.js';
+
+// Names of the config file looked up in the working directory and the data directory
+export const CONFIG_FILE_NAMES = ['spheron-mcp.config.json', 'spheron-mcp.config.yaml', 'spheron-mcp.config.yml'];
+
+const REDACTED = '[redacted]';
+
+// Numeric log levels accepted by SPHERON_LOG_LEVEL
+const NUMERIC_LOG_LEVELS = ['error', 'warn', 'info', 'debug'];
+
+/**
+ * An invalid setting and where its value came from
+ */
+export interface ConfigIssue extends ValidationIssue {
+  // Config file or environment variable that set the invalid value
+  source: string;
+}
+
+/**
+ * Raised when the configuration is invalid; lists every invalid setting
+ */
+export class ConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue.path} ${issue.message} (${issue.source})`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Effective configuration and where it came from
+ */
+export interface LoadedConfig {
+  config: ServerConfig;
+  // Config file read, or null when only defaults and the environment apply
+  file: string | null;
+  // Environment variables that overrode settings
+  envOverrides: string[];
+}
+
+let loaded: LoadedConfig | null = null;
+
+/**
+ * Find the config file: SPHERON_CONFIG_FILE, else spheron-mcp.config.{json,yaml,yml}
+ * in the working directory, else in the data directory
+ * @returns File path, or null when there is none
+ */
+function findConfigFile(): string | null {
+  if (process.env.SPHERON_CONFIG_FILE) {
+    return path.resolve(process.env.SPHERON_CONFIG_FILE);
+  }
+
+  const dataDir = process.env.SPHERON_DATA_DIR || DEFAULT_CONFIG.dataDir;
+  for (const dir of [process.cwd(), dataDir]) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a config file as JSON or YAML, by extension
+ * @param filePath File path
+ * @returns Parsed content
+ */
+function readConfigFile(filePath: string): unknown {
+  if (!existsSync(filePath)) {
+    throw new ConfigError([{ path: '(file)', message: 'does not exist', source: filePath }]);
+  }
+
+  const content = readFileSync(filePath, 'utf8');
+  try {
+    return filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content) ?? {};
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    throw new ConfigError([{ path: '(file)', message: `could not be parsed: ${reason}`, source: filePath }]);
+  }
+}
+
+/**
+ * Convert an environment variable to the type of its setting
+ * @param override Environment variable override
+ * @param value Variable value
+ * @returns Setting value (invalid numbers are left for schema validation to report)
+ */
+function parseEnvValue(override: EnvOverride, value: string): unknown {
+  switch (override.type) {
+    case 'number':
+      return value.trim() === '' ? value : Number(value);
+    case 'list':
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      if (override.setting === 'logLevel') {
+        const level = value.toLowerCase();
+        return NUMERIC_LOG_LEVELS[Number(level)] ?? level;
+      }
+      return value;
+  }
+}
+
+function getSetting(target: Record<string, any>, setting: string): unknown {
+  return setting.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), target);
+}
+
+function setSetting(target: Record<string, any>, setting: string, value: unknown): void {
+  const keys = setting.split('.');
+  const parent = keys.slice(0, -1).reduce((node, key) => {
+    if (typeof node[key] !== 'object' || node[key] === null || Array.isArray(node[key])) {
+      node[key] = {};
+    }
+    return node[key];
+  }, target);
+  parent[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Load and validate the configuration: defaults, overridden by the config file,
+ * overridden by environment variables. Every invalid setting is reported at once.
+ * @returns Effective configuration
+ */
+export function loadConfig(): LoadedConfig {
+  const file = findConfigFile();
+  const fileContent = file ? readConfigFile(file) : {};
+
+  const issues: ConfigIssue[] = validateSchema(CONFIG_SCHEMA, fileContent, '')
+    .map(issue => ({
+      path: issue.path || '(file)',
+      message: issue.message.replace('recognized argument', 'recognized setting'),
+      source: file!
+    }));
+  if (issues.length > 0 && issues[0].path === '(file)') {
+    throw new ConfigError(issues);
+  }
+
+  const settings = JSON.parse(JSON.stringify(fileContent)) as Record<string, any>;
+  const envOverrides: string[] = [];
+  const envSources = new Set<string>();
+
+  for (const override of ENV_OVERRIDES) {
+    const value = process.env[override.env];
+    if (value === undefined || value === '') {
+      continue;
+    }
+
+    setSetting(settings, override.setting, parseEnvValue(override, value));
+    envOverrides.push(override.env);
+    envSources.add(override.setting);
+
+    const schema = override.setting.split('.').reduce((node, key) => node.properties![key], CONFIG_SCHEMA);
+    issues.push(...validateSchema(schema, getSetting(settings, override.setting), override.setting)
+      .map(issue => ({ ...issue, source: override.env })));
+  }
+
+  // A file value replaced by a valid environment variable is no longer an issue
+  const overridden = [...envSources];
+  const remaining = issues.filter(issue => issue.source !== file || !overridden.some(setting =>
+    issue.path === setting || issue.path.startsWith(`${setting}.`) || issue.path.startsWith(`${setting}[`)));
+  if (remaining.length > 0) {
+    throw new ConfigError(remaining);
+  }
+
+  const config: ServerConfig = {
+    ...DEFAULT_CONFIG,
+    ...settings,
+    transport: { ...DEFAULT_CONFIG.transport, ...settings.transport },
+    deployment: { ...DEFAULT_CONFIG.deployment, ...settings.deployment },
+    backend: {
+      ...DEFAULT_CONFIG.backend,
+      ...settings.backend,
+      retry: { ...DEFAULT_CONFIG.backend.retry, ...settings.backend?.retry },
+      simulator: { ...DEFAULT_CONFIG.backend.simulator, ...settings.backend?.simulator }
+    }
+  };
+
+  loaded = { config, file, envOverrides };
+  return loaded;
+}
+
+/**
+ * Get the effective configuration, loading it on first use
+ * @returns Effective configuration
+ */
+export function getConfig(): ServerConfig {
+  return (loaded || loadConfig()).config;
+}
+
+/**
+ * Get the effective configuration with its sources, loading it on first use
+ * @returns Effective configuration, config file and environment overrides
+ */
+export function getLoadedConfig(): LoadedConfig {
+  return loaded || loadConfig();
+}
+
+/**
+ * Copy a configuration with its secrets replaced
+ * @param config Configuration
+ * @returns Configuration safe to return to clients
+ */
+export function redactConfig(config: ServerConfig): ServerConfig {
+  const redacted = JSON.parse(JSON.stringify(config)) as ServerConfig;
+  for (const setting of SECRET_SETTINGS) {
+    if (getSetting(redacted, setting) !== undefined) {
+      setSetting(redacted, setting, REDACTED);
+    }
+  }
+  return redacted;
+}
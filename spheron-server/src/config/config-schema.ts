@@ -0,0 +1,250 @@
+/**
+ * Schema, defaults and environment variable overrides of the server configuration
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { JsonSchema } from '../tools/index.js';
+import { NETWORKS, Network } from '../networks/index.js';
+import { BACKEND_OPERATIONS, BackendOperation, BackendType } from '../backend/backend.js';
+
+export type LogLevelName = 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * A failure the simulator injects into a backend operation
+ */
+export interface SimulatedFailure {
+  operation: BackendOperation;
+  // 1-based numbers of the calls that fail (every call when omitted)
+  calls?: number[];
+  message?: string;
+}
+
+/**
+ * Effective server configuration
+ */
+export interface ServerConfig {
+  // Network of operations that do not name one
+  network: Network;
+  providerProxyUrl: string;
+  // Enables Claude-assisted natural language processing
+  claudeApiKey?: string;
+  logLevel: LogLevelName;
+  // Directory for local server state
+  dataDir: string;
+  // Keystore file of named accounts; private keys themselves stay in it or in the environment
+  accountsFile?: string;
+  defaultAccount?: string;
+  policyFile?: string;
+  tokensFile?: string;
+  pricingFile?: string;
+  // How often subscribed lease resources are checked for state changes
+  resourcePollSeconds: number;
+  // How long an idempotency key returns the result of its first call
+  idempotencyWindowHours: number;
+  transport: {
+    type: 'stdio' | 'http';
+    host: string;
+    port: number;
+    authToken?: string;
+    corsOrigins: string[];
+    // How long shutdown waits for tool calls in progress
+    shutdownGraceSeconds: number;
+  };
+  deployment: {
+    // Image and region of generated YAML when the description names none
+    defaultImage: string;
+    defaultRegion: string;
+    // Warn when less than this many hours of a deployment's cost would remain after paying for it
+    balanceWarningHours: number;
+    // Warn when the same YAML was deployed by the account this many minutes ago or less
+    duplicateWarningMinutes: number;
+  };
+  backend: {
+    // "sdk" talks to the Spheron network; "simulator" runs offline in the server process
+    type: BackendType;
+    // Retries of read-only backend operations after transient network failures
+    retry: {
+      // Total attempts, including the first
+      attempts: number;
+      // Delay before the first retry, doubled for each further retry up to maxDelayMs
+      initialDelayMs: number;
+      maxDelayMs: number;
+    };
+    simulator: {
+      // Unlocked escrow balance, in whole tokens, that every account starts with for each token
+      initialBalance: number;
+      // Status checks before a new or updated deployment reports its services as running
+      readyAfterPolls: number;
+      // Images whose containers never start (ImagePullBackOff)
+      failingImages: string[];
+      failures: SimulatedFailure[];
+    };
+  };
+}
+
+/**
+ * Default configuration
+ */
+export const DEFAULT_CONFIG: ServerConfig = {
+  network: 'testnet',
+  providerProxyUrl: 'https://provider-proxy.spheron.network',
+  logLevel: 'info',
+  dataDir: path.join(os.homedir(), '.spheron-mcp'),
+  resourcePollSeconds: 30,
+  idempotencyWindowHours: 24,
+  transport: {
+    type: 'stdio',
+    host: '127.0.0.1',
+    port: 3000,
+    corsOrigins: [],
+    shutdownGraceSeconds: 10
+  },
+  deployment: {
+    defaultImage: 'spheronnetwork/jupyter-notebook:pytorch-2.4.1-cuda-enabled',
+    defaultRegion: 'westcoast',
+    balanceWarningHours: 2,
+    duplicateWarningMinutes: 10
+  },
+  backend: {
+    type: 'sdk',
+    retry: {
+      attempts: 3,
+      initialDelayMs: 500,
+      maxDelayMs: 5000
+    },
+    simulator: {
+      initialBalance: 1000,
+      readyAfterPolls: 3,
+      failingImages: [],
+      failures: []
+    }
+  }
+};
+
+const NON_EMPTY: JsonSchema = { type: 'string', minLength: 1 };
+
+/**
+ * JSON schema of the configuration file
+ */
+export const CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    network: { type: 'string', enum: NETWORKS },
+    providerProxyUrl: { ...NON_EMPTY, pattern: '^https?://' },
+    claudeApiKey: NON_EMPTY,
+    logLevel: { type: 'string', enum: ['error', 'warn', 'info', 'debug'] },
+    dataDir: NON_EMPTY,
+    accountsFile: NON_EMPTY,
+    defaultAccount: { type: 'string', pattern: '^[a-z0-9][a-z0-9_-]*$' },
+    policyFile: NON_EMPTY,
+    tokensFile: NON_EMPTY,
+    pricingFile: NON_EMPTY,
+    resourcePollSeconds: { type: 'integer', minimum: 5 },
+    idempotencyWindowHours: { type: 'number', minimum: 0 },
+    transport: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['stdio', 'http'] },
+        host: NON_EMPTY,
+        port: { type: 'integer', minimum: 1, maximum: 65535 },
+        authToken: { type: 'string', minLength: 16 },
+        corsOrigins: { type: 'array', items: NON_EMPTY },
+        shutdownGraceSeconds: { type: 'integer', minimum: 0 }
+      },
+      additionalProperties: false
+    },
+    deployment: {
+      type: 'object',
+      properties: {
+        defaultImage: NON_EMPTY,
+        defaultRegion: NON_EMPTY,
+        balanceWarningHours: { type: 'number', minimum: 0 },
+        duplicateWarningMinutes: { type: 'number', minimum: 0 }
+      },
+      additionalProperties: false
+    },
+    backend: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['sdk', 'simulator'] },
+        retry: {
+          type: 'object',
+          properties: {
+            attempts: { type: 'integer', minimum: 1, maximum: 10 },
+            initialDelayMs: { type: 'integer', minimum: 0 },
+            maxDelayMs: { type: 'integer', minimum: 0 }
+          },
+          additionalProperties: false
+        },
+        simulator: {
+          type: 'object',
+          properties: {
+            initialBalance: { type: 'number', minimum: 0 },
+            readyAfterPolls: { type: 'integer', minimum: 0 },
+            failingImages: { type: 'array', items: NON_EMPTY },
+            failures: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  operation: { type: 'string', enum: BACKEND_OPERATIONS },
+                  calls: { type: 'array', items: { type: 'integer', minimum: 1 } },
+                  message: NON_EMPTY
+                },
+                required: ['operation'],
+                additionalProperties: false
+              }
+            }
+          },
+          additionalProperties: false
+        }
+      },
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+};
+
+// Settings never returned by show_config
+export const SECRET_SETTINGS = ['claudeApiKey', 'transport.authToken'];
+
+/**
+ * An environment variable that overrides a setting
+ */
+export interface EnvOverride {
+  env: string;
+  // Dotted path of the setting
+  setting: string;
+  type: 'string' | 'number' | 'list';
+}
+
+/**
+ * Environment variables that override settings of the configuration file
+ */
+export const ENV_OVERRIDES: EnvOverride[] = [
+  { env: 'SPHERON_NETWORK', setting: 'network', type: 'string' },
+  { env: 'PROVIDER_PROXY_URL', setting: 'providerProxyUrl', type: 'string' },
+  { env: 'CLAUDE_API_KEY', setting: 'claudeApiKey', type: 'string' },
+  { env: 'SPHERON_LOG_LEVEL', setting: 'logLevel', type: 'string' },
+  { env: 'SPHERON_DATA_DIR', setting: 'dataDir', type: 'string' },
+  { env: 'SPHERON_ACCOUNTS_FILE', setting: 'accountsFile', type: 'string' },
+  { env: 'SPHERON_DEFAULT_ACCOUNT', setting: 'defaultAccount', type: 'string' },
+  { env: 'SPHERON_POLICY_FILE', setting: 'policyFile', type: 'string' },
+  { env: 'SPHERON_TOKENS_FILE', setting: 'tokensFile', type: 'string' },
+  { env: 'SPHERON_PRICING_FILE', setting: 'pricingFile', type: 'string' },
+  { env: 'SPHERON_RESOURCE_POLL_SECONDS', setting: 'resourcePollSeconds', type: 'number' },
+  { env: 'SPHERON_IDEMPOTENCY_WINDOW_HOURS', setting: 'idempotencyWindowHours', type: 'number' },
+  { env: 'SPHERON_TRANSPORT', setting: 'transport.type', type: 'string' },
+  { env: 'SPHERON_HTTP_HOST', setting: 'transport.host', type: 'string' },
+  { env: 'SPHERON_HTTP_PORT', setting: 'transport.port', type: 'number' },
+  { env: 'SPHERON_HTTP_AUTH_TOKEN', setting: 'transport.authToken', type: 'string' },
+  { env: 'SPHERON_HTTP_CORS_ORIGINS', setting: 'transport.corsOrigins', type: 'list' },
+  { env: 'SPHERON_SHUTDOWN_GRACE_SECONDS', setting: 'transport.shutdownGraceSeconds', type: 'number' },
+  { env: 'SPHERON_DEFAULT_IMAGE', setting: 'deployment.defaultImage', type: 'string' },
+  { env: 'SPHERON_DEFAULT_REGION', setting: 'deployment.defaultRegion', type: 'string' },
+  { env: 'SPHERON_BALANCE_WARNING_HOURS', setting: 'deployment.balanceWarningHours', type: 'number' },
+  { env: 'SPHERON_DUPLICATE_WARNING_MINUTES', setting: 'deployment.duplicateWarningMinutes', type: 'number' },
+  { env: 'SPHERON_BACKEND', setting: 'backend.type', type: 'string' },
+  { env: 'SPHERON_RETRY_ATTEMPTS', setting: 'backend.retry.attempts', type: 'number' }
+];
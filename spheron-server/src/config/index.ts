@@ -0,0 +1,41 @@
+/**
+ * Server configuration: config file, environment variable overrides and defaults
+ */
+
+import {
+  loadConfig,
+  getConfig,
+  getLoadedConfig,
+  redactConfig,
+  ConfigError,
+  ConfigIssue,
+  LoadedConfig,
+  CONFIG_FILE_NAMES
+} from './config-loader.js';
+import {
+  CONFIG_SCHEMA,
+  DEFAULT_CONFIG,
+  ENV_OVERRIDES,
+  SECRET_SETTINGS,
+  LogLevelName,
+  ServerConfig,
+  SimulatedFailure
+} from './config-schema.js';
+
+export {
+  loadConfig,
+  getConfig,
+  getLoadedConfig,
+  redactConfig,
+  ConfigError,
+  ConfigIssue,
+  LoadedConfig,
+  CONFIG_FILE_NAMES,
+  CONFIG_SCHEMA,
+  DEFAULT_CONFIG,
+  ENV_OVERRIDES,
+  SECRET_SETTINGS,
+  LogLevelName,
+  ServerConfig,
+  SimulatedFailure
+};
@@ -0,0 +1,108 @@
+/**
+ * One-time confirmation tokens for operations that move funds
+ */
+
+import { randomBytes } from 'crypto';
+
+// How long a confirmation token stays valid
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * A pending confirmation
+ */
+export interface PendingConfirmation {
+  token: string;
+  operation: string;
+  // Parameters the confirmed call must repeat exactly
+  params: Record<string, string>;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Result of consuming a confirmation token
+ */
+export type ConfirmationResult =
+  | { valid: true; confirmation: PendingConfirmation }
+  | { valid: false; reason: string };
+
+// In-memory store for pending confirmations
+const confirmationStore = new Map<string, PendingConfirmation>();
+
+/**
+ * Create a confirmation token for an operation
+ * @param operation Operation name
+ * @param params Parameters the confirmed call must repeat
+ * @param now Current time in milliseconds
+ * @returns Pending confirmation
+ */
+export function createConfirmation(
+  operation: string,
+  params: Record<string, string>,
+  now: number = Date.now()
+): PendingConfirmation {
+  pruneExpired(now);
+
+  const confirmation: PendingConfirmation = {
+    token: `confirm_${randomBytes(16).toString('hex')}`,
+    operation,
+    params,
+    createdAt: now,
+    expiresAt: now + CONFIRMATION_TTL_MS
+  };
+
+  confirmationStore.set(confirmation.token, confirmation);
+
+  return confirmation;
+}
+
+/**
+ * Consume a confirmation token. The token is removed whether or not it matches,
+ * so every token can be used at most once.
+ * @param token Confirmation token
+ * @param operation Operation being confirmed
+ * @param params Parameters of the confirmed call
+ * @param now Current time in milliseconds
+ * @returns Confirmation result
+ */
+export function consumeConfirmation(
+  token: string,
+  operation: string,
+  params: Record<string, string>,
+  now: number = Date.now()
+): ConfirmationResult {
+  const confirmation = confirmationStore.get(token);
+  confirmationStore.delete(token);
+
+  if (!confirmation) {
+    return { valid: false, reason: 'Confirmation token not found or already used' };
+  }
+
+  if (confirmation.expiresAt <= now) {
+    return { valid: false, reason: 'Confirmation token has expired' };
+  }
+
+  if (confirmation.operation !== operation) {
+    return { valid: false, reason: `Confirmation token was issued for ${confirmation.operation}, not ${operation}` };
+  }
+
+  for (const [key, value] of Object.entries(confirmation.params)) {
+    if (params[key] !== value) {
+      return { valid: false, reason: `Parameter "${key}" does not match the confirmed request (expected ${value})` };
+    }
+  }
+
+  return { valid: true, confirmation };
+}
+
+/**
+ * Remove expired confirmations
+ * @param now Current time in milliseconds
+ */
+function pruneExpired(now: number): void {
+  for (const [token, confirmation] of confirmationStore) {
+    if (confirmation.expiresAt <= now) {
+      confirmationStore.delete(token);
+    }
+  }
+}
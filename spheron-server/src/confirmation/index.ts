@@ -0,0 +1,19 @@
+/**
+ * Two-step confirmation for operations that move funds
+ */
+
+import {
+  CONFIRMATION_TTL_MS,
+  createConfirmation,
+  consumeConfirmation,
+  PendingConfirmation,
+  ConfirmationResult
+} from './confirmation-store.js';
+
+export {
+  CONFIRMATION_TTL_MS,
+  createConfirmation,
+  consumeConfirmation,
+  PendingConfirmation,
+  ConfirmationResult
+};
@@ -5,9 +5,11 @@
 import {
   createConversation,
   getConversation,
+  listConversations,
   updateConversation,
   completeConversation,
   deleteConversation,
+  deleteSessionConversations,
   buildContext,
   ConversationState
 } from './state-manager.js';
@@ -15,9 +17,11 @@ import {
 export {
   createConversation,
   getConversation,
+  listConversations,
   updateConversation,
   completeConversation,
   deleteConversation,
+  deleteSessionConversations,
   buildContext,
   ConversationState
 };
@@ -9,6 +9,8 @@ import { ExtractedParams } from '../natural-language-processor/index.js';
  */
 export interface ConversationState {
   id: string;
+  // Client session the conversation belongs to
+  sessionId?: string;
   originalDescription: string;
   currentParams: ExtractedParams;
   missingParams: string[];
@@ -27,12 +29,14 @@ const conversationStore = new Map<string, ConversationState>();
  * @param description Original natural language description
  * @param params Initial extracted parameters
  * @param missingParams Missing parameters
+ * @param sessionId Client session the conversation belongs to
  * @returns Conversation state
  */
 export function createConversation(
   description: string,
   params: ExtractedParams,
-  missingParams: string[]
+  missingParams: string[],
+  sessionId?: string
 ): ConversationState {
   // Generate a unique ID
   const id = generateId();
@@ -40,6 +44,7 @@ export function createConversation(
   // Create conversation state
   const state: ConversationState = {
     id,
+    sessionId,
     originalDescription: description,
     currentParams: params,
     missingParams,
@@ -56,10 +61,28 @@ export function createConversation(
 /**
  * Get conversation state by ID
  * @param id Conversation ID
+ * @param sessionId Client session asking; conversations of other sessions are not returned
  * @returns Conversation state or undefined if not found
  */
-export function getConversation(id: string): ConversationState | undefined {
-  return conversationStore.get(id);
+export function getConversation(id: string, sessionId?: string): ConversationState | undefined {
+  const state = conversationStore.get(id);
+  
+  if (!state || (sessionId !== undefined && state.sessionId !== undefined && state.sessionId !== sessionId)) {
+    return undefined;
+  }
+  
+  return state;
+}
+
+/**
+ * List conversations
+ * @param sessionId Client session asking; conversations of other sessions are not listed
+ * @returns Conversation states
+ */
+export function listConversations(sessionId?: string): ConversationState[] {
+  return [...conversationStore.values()].filter(state =>
+    sessionId === undefined || state.sessionId === undefined || state.sessionId === sessionId
+  );
 }
 
 /**
@@ -126,6 +149,24 @@ export function deleteConversation(id: string): boolean {
   return conversationStore.delete(id);
 }
 
+/**
+ * Delete all conversations of a client session
+ * @param sessionId Client session ID
+ * @returns Number of deleted conversations
+ */
+export function deleteSessionConversations(sessionId: string): number {
+  let deleted = 0;
+  
+  for (const [id, state] of conversationStore) {
+    if (state.sessionId === sessionId) {
+      conversationStore.delete(id);
+      deleted++;
+    }
+  }
+  
+  return deleted;
+}
+
 /**
  * Generate a unique ID
  * @returns Unique ID
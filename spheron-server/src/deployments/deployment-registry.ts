@@ -0,0 +1,244 @@
+/**
+ * Local registry of deployments created through the server
+ */
+
+import { createHash } from 'crypto';
+import { getDataFile, readJsonFile, writeJsonFile } from '../utils/storage.js';
+
+export type DeploymentStatus = 'active' | 'closed';
+
+/**
+ * Estimated cost of a deployment at the time it was created or last updated
+ */
+export interface RecordedCost {
+  hourlyCost: number;
+  totalCost: number;
+  duration: string;
+  token: string;
+}
+
+/**
+ * A change made to a deployment through the server
+ */
+export interface DeploymentEvent {
+  operation: string;
+  timestamp: string;
+}
+
+/**
+ * A deployment created (or updated) through the server
+ */
+export interface DeploymentRecord {
+  leaseId: string;
+  name: string | null;
+  labels: string[];
+  status: DeploymentStatus;
+  network: string;
+  // Name of the account that owns the lease (null for records made before accounts existed)
+  account: string | null;
+  walletAddress: string;
+  conversationId: string | null;
+  yamlContent: string;
+  estimatedCost: RecordedCost | null;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  history: DeploymentEvent[];
+}
+
+/**
+ * Details of a deployment to record
+ */
+export interface DeploymentInput {
+  leaseId: string;
+  operation: string;
+  network: string;
+  account: string;
+  walletAddress: string;
+  yamlContent: string;
+  estimatedCost: RecordedCost | null;
+  name?: string;
+  labels?: string[];
+  conversationId?: string;
+}
+
+/**
+ * Filters for listing deployment records
+ */
+export interface DeploymentFilter {
+  status?: DeploymentStatus | 'all';
+  label?: string;
+  account?: string;
+}
+
+/**
+ * Get the path of the registry file
+ */
+function getRegistryPath(): string {
+  return getDataFile('deployments.json');
+}
+
+/**
+ * Read all records, keyed by lease ID
+ */
+function readRecords(): Record<string, DeploymentRecord> {
+  return readJsonFile<Record<string, DeploymentRecord>>(getRegistryPath(), {});
+}
+
+/**
+ * Record a deployment. Recording an existing lease again (after an update or
+ * extension) replaces its YAML and cost and keeps its name, labels and history.
+ * @param input Deployment details
+ * @param now Current time in milliseconds
+ * @returns Stored record
+ */
+export function recordDeployment(input: DeploymentInput, now: number = Date.now()): DeploymentRecord {
+  const records = readRecords();
+  const timestamp = new Date(now).toISOString();
+  const existing = records[input.leaseId];
+
+  const record: DeploymentRecord = {
+    leaseId: input.leaseId,
+    name: input.name ?? existing?.name ?? null,
+    labels: normalizeLabels([...(existing?.labels || []), ...(input.labels || [])]),
+    status: 'active',
+    network: input.network,
+    account: input.account,
+    walletAddress: input.walletAddress,
+    conversationId: input.conversationId ?? existing?.conversationId ?? null,
+    yamlContent: input.yamlContent,
+    estimatedCost: input.estimatedCost,
+    createdAt: existing?.createdAt ?? timestamp,
+    updatedAt: timestamp,
+    closedAt: null,
+    history: [...(existing?.history || []), { operation: input.operation, timestamp }]
+  };
+
+  records[input.leaseId] = record;
+  writeJsonFile(getRegistryPath(), records);
+
+  return record;
+}
+
+/**
+ * Mark a recorded deployment as closed
+ * @param leaseId Lease ID
+ * @param now Current time in milliseconds
+ * @returns Updated record, or undefined if the lease is not recorded
+ */
+export function markDeploymentClosed(leaseId: string, now: number = Date.now()): DeploymentRecord | undefined {
+  const records = readRecords();
+  const record = records[leaseId];
+  if (!record) {
+    return undefined;
+  }
+
+  const timestamp = new Date(now).toISOString();
+  record.status = 'closed';
+  record.closedAt = timestamp;
+  record.updatedAt = timestamp;
+  record.history.push({ operation: 'close_deployment', timestamp });
+
+  writeJsonFile(getRegistryPath(), records);
+  return record;
+}
+
+/**
+ * Get a deployment record by lease ID
+ * @param leaseId Lease ID
+ * @returns Record, or undefined if the lease is not recorded
+ */
+export function getDeploymentRecord(leaseId: string): DeploymentRecord | undefined {
+  return readRecords()[leaseId];
+}
+
+/**
+ * List deployment records, newest first
+ * @param filter Status, label and account filters
+ * @returns Matching records
+ */
+export function listDeploymentRecords(filter: DeploymentFilter = {}): DeploymentRecord[] {
+  const status = filter.status || 'all';
+
+  return Object.values(readRecords())
+    .filter(record => status === 'all' || record.status === status)
+    .filter(record => !filter.label || matchesLabel(record, filter.label))
+    .filter(record => !filter.account || record.account === filter.account)
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+/**
+ * Find the deployments a label refers to. A label matches a record's name or
+ * any of its labels, ignoring case. Active deployments come first, newest first.
+ * @param label Name or label
+ * @returns Matching records
+ */
+export function findDeploymentsByLabel(label: string): DeploymentRecord[] {
+  return listDeploymentRecords({ label })
+    .sort((a, b) => Number(b.status === 'active') - Number(a.status === 'active'));
+}
+
+/**
+ * Hash of a YAML configuration, ignoring line endings and trailing whitespace
+ * @param yamlContent YAML configuration
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashYamlContent(yamlContent: string): string {
+  const normalized = yamlContent
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Find active deployments of the same YAML created recently by an account on a network
+ * @param yamlContent YAML configuration
+ * @param account Account name
+ * @param network Network name
+ * @param windowMs How far back to look, in milliseconds
+ * @param now Current time in milliseconds
+ * @returns Matching records, newest first
+ */
+export function findRecentDuplicates(
+  yamlContent: string,
+  account: string,
+  network: string,
+  windowMs: number,
+  now: number = Date.now()
+): DeploymentRecord[] {
+  const hash = hashYamlContent(yamlContent);
+
+  return listDeploymentRecords({ status: 'active', account })
+    .filter(record => record.network === network && now - Date.parse(record.createdAt) < windowMs)
+    .filter(record => hashYamlContent(record.yamlContent) === hash);
+}
+
+/**
+ * Check whether a record's name or labels match a label
+ */
+function matchesLabel(record: DeploymentRecord, label: string): boolean {
+  const wanted = label.trim().toLowerCase();
+  return record.name?.toLowerCase() === wanted
+    || record.labels.some(item => item.toLowerCase() === wanted);
+}
+
+/**
+ * Trim labels and drop empty and duplicate ones
+ */
+function normalizeLabels(labels: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const label of labels) {
+    const trimmed = label.trim();
+    if (trimmed && !seen.has(trimmed.toLowerCase())) {
+      seen.add(trimmed.toLowerCase());
+      result.push(trimmed);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,58 @@
+/**
+ * Local registry of deployments created through the server and waiting for
+ * deployments to become ready
+ */
+
+import {
+  recordDeployment,
+  markDeploymentClosed,
+  getDeploymentRecord,
+  listDeploymentRecords,
+  findDeploymentsByLabel,
+  findRecentDuplicates,
+  hashYamlContent,
+  DeploymentStatus,
+  RecordedCost,
+  DeploymentEvent,
+  DeploymentRecord,
+  DeploymentInput,
+  DeploymentFilter
+} from './deployment-registry.js';
+import {
+  summarizeReadiness,
+  waitForReady,
+  WaitCancelledError,
+  ServiceStage,
+  ServiceReadiness,
+  ForwardedPortSummary,
+  DeploymentReadiness,
+  WaitProgress,
+  WaitResult,
+  WaitOptions
+} from './readiness.js';
+
+export {
+  recordDeployment,
+  markDeploymentClosed,
+  getDeploymentRecord,
+  listDeploymentRecords,
+  findDeploymentsByLabel,
+  findRecentDuplicates,
+  hashYamlContent,
+  DeploymentStatus,
+  RecordedCost,
+  DeploymentEvent,
+  DeploymentRecord,
+  DeploymentInput,
+  DeploymentFilter,
+  summarizeReadiness,
+  waitForReady,
+  WaitCancelledError,
+  ServiceStage,
+  ServiceReadiness,
+  ForwardedPortSummary,
+  DeploymentReadiness,
+  WaitProgress,
+  WaitResult,
+  WaitOptions
+};
@@ -0,0 +1,266 @@
+/**
+ * Waiting for a deployment's services to become ready
+ */
+
+export type ServiceStage = 'pending' | 'pulling' | 'starting' | 'running' | 'failed';
+
+/**
+ * Readiness of one service, derived from the provider's lease status
+ */
+export interface ServiceReadiness {
+  name: string;
+  stage: ServiceStage;
+  readyReplicas: number;
+  totalReplicas: number;
+  uris: string[];
+  reason: string | null;
+}
+
+/**
+ * Forwarded port of a service
+ */
+export interface ForwardedPortSummary {
+  service: string;
+  port: number;
+  externalPort: number;
+  host: string;
+  protocol: string | null;
+  url: string;
+}
+
+/**
+ * Readiness of a whole deployment at one poll
+ */
+export interface DeploymentReadiness {
+  ready: boolean;
+  failed: boolean;
+  services: ServiceReadiness[];
+  forwardedPorts: ForwardedPortSummary[];
+  urls: string[];
+}
+
+/**
+ * Progress reported while waiting
+ */
+export interface WaitProgress {
+  attempt: number;
+  elapsedMs: number;
+  readiness: DeploymentReadiness | null;
+  message: string;
+}
+
+/**
+ * Outcome of waiting for a deployment
+ */
+export interface WaitResult extends DeploymentReadiness {
+  timedOut: boolean;
+  attempts: number;
+  elapsedMs: number;
+  lastError: string | null;
+}
+
+/**
+ * Options for waiting for a deployment
+ */
+export interface WaitOptions {
+  timeoutMs: number;
+  initialIntervalMs?: number;
+  maxIntervalMs?: number;
+  backoffFactor?: number;
+  signal?: AbortSignal;
+  // Called on the first poll and whenever the services change stage
+  onProgress?: (progress: WaitProgress) => void | Promise<void>;
+}
+
+/**
+ * Raised when waiting is cancelled through the abort signal
+ */
+export class WaitCancelledError extends Error {
+  constructor() {
+    super('Waiting for the deployment was cancelled');
+    this.name = 'WaitCancelledError';
+  }
+}
+
+// Container waiting reasons that will not resolve by themselves
+const FAILURE_REASONS = [
+  'ErrImagePull',
+  'ImagePullBackOff',
+  'InvalidImageName',
+  'CrashLoopBackOff',
+  'CreateContainerConfigError',
+  'CreateContainerError'
+];
+
+// Container waiting reasons while the image is being fetched
+const PULLING_REASONS = ['ContainerCreating', 'PodInitializing'];
+
+/**
+ * Derive the readiness of a deployment from the provider's lease status
+ * @param status Response of deployment.getDeployment
+ * @returns Deployment readiness
+ */
+export function summarizeReadiness(status: any): DeploymentReadiness {
+  const services: ServiceReadiness[] = Object.entries<any>(status?.services || {})
+    .map(([name, service]) => summarizeService(service?.name || name, service));
+
+  const forwardedPorts: ForwardedPortSummary[] = [];
+  for (const [service, ports] of Object.entries<any>(status?.forwarded_ports || {})) {
+    for (const port of ports || []) {
+      forwardedPorts.push({
+        service,
+        port: Number(port.port),
+        externalPort: Number(port.externalPort),
+        host: String(port.host),
+        protocol: port.proto ?? null,
+        url: `${port.host}:${port.externalPort}`
+      });
+    }
+  }
+
+  const urls = [
+    ...services.flatMap(service => service.uris),
+    ...forwardedPorts.map(port => port.url)
+  ];
+
+  return {
+    ready: services.length > 0 && services.every(service => service.stage === 'running'),
+    failed: services.some(service => service.stage === 'failed'),
+    services,
+    forwardedPorts,
+    urls
+  };
+}
+
+/**
+ * Derive the stage of one service
+ */
+function summarizeService(name: string, service: any): ServiceReadiness {
+  const readyReplicas = Number(service?.ready_replicas ?? service?.available ?? 0);
+  const totalReplicas = Number(service?.total ?? service?.replicas ?? 0);
+  const uris: string[] = service?.uris || [];
+
+  let stage: ServiceStage = 'pending';
+  let reason: string | null = null;
+
+  for (const container of service?.container_statuses || []) {
+    const waiting = container?.state?.waiting;
+    const terminated = container?.state?.terminated;
+
+    if (waiting?.reason && FAILURE_REASONS.includes(waiting.reason)) {
+      return { name, stage: 'failed', readyReplicas, totalReplicas, uris, reason: waiting.message || waiting.reason };
+    }
+    if (terminated && terminated.exitCode !== 0) {
+      return { name, stage: 'failed', readyReplicas, totalReplicas, uris, reason: terminated.reason || `exit code ${terminated.exitCode}` };
+    }
+    if (waiting?.reason && PULLING_REASONS.includes(waiting.reason)) {
+      stage = 'pulling';
+      reason = waiting.reason;
+    } else if (container?.state?.running && stage !== 'pulling') {
+      stage = 'starting';
+    }
+  }
+
+  if (totalReplicas > 0 && readyReplicas >= totalReplicas) {
+    stage = 'running';
+    reason = null;
+  }
+
+  return { name, stage, readyReplicas, totalReplicas, uris, reason };
+}
+
+/**
+ * Poll a deployment until its services are ready, a service fails, or the timeout passes.
+ * Errors from the status call (e.g. the provider not knowing the lease yet) are retried.
+ * @param fetchStatus Fetches the provider's lease status
+ * @param options Timeout, backoff, cancellation and progress options
+ * @returns Final readiness
+ */
+export async function waitForReady(fetchStatus: () => Promise<unknown>, options: WaitOptions): Promise<WaitResult> {
+  const initialIntervalMs = options.initialIntervalMs ?? 2000;
+  const maxIntervalMs = options.maxIntervalMs ?? 15000;
+  const backoffFactor = options.backoffFactor ?? 1.5;
+  const start = Date.now();
+
+  let interval = initialIntervalMs;
+  let attempts = 0;
+  let lastError: string | null = null;
+  let readiness: DeploymentReadiness | null = null;
+  let lastSignature: string | null = null;
+
+  while (true) {
+    if (options.signal?.aborted) {
+      throw new WaitCancelledError();
+    }
+
+    attempts++;
+    try {
+      readiness = summarizeReadiness(await fetchStatus());
+      lastError = null;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    const elapsedMs = Date.now() - start;
+    const signature = readiness
+      ? readiness.services.map(service => `${service.name}:${service.stage}:${service.readyReplicas}`).join(',')
+      : `error:${lastError}`;
+
+    if (options.onProgress && signature !== lastSignature) {
+      await options.onProgress({ attempt: attempts, elapsedMs, readiness, message: describeProgress(readiness, lastError) });
+    }
+    lastSignature = signature;
+
+    const done = readiness !== null && (readiness.ready || readiness.failed);
+    if (done || elapsedMs + interval > options.timeoutMs) {
+      return {
+        ready: readiness?.ready ?? false,
+        failed: readiness?.failed ?? false,
+        services: readiness?.services ?? [],
+        forwardedPorts: readiness?.forwardedPorts ?? [],
+        urls: readiness?.urls ?? [],
+        timedOut: !done,
+        attempts,
+        elapsedMs,
+        lastError
+      };
+    }
+
+    await sleep(interval, options.signal);
+    interval = Math.min(interval * backoffFactor, maxIntervalMs);
+  }
+}
+
+/**
+ * Describe the state of a deployment in one line
+ */
+function describeProgress(readiness: DeploymentReadiness | null, lastError: string | null): string {
+  if (!readiness) {
+    return `Waiting for the provider to report the deployment${lastError ? ` (${lastError})` : ''}`;
+  }
+  if (readiness.services.length === 0) {
+    return 'Waiting for the provider to start the services';
+  }
+
+  return readiness.services
+    .map(service => `${service.name}: ${service.stage} (${service.readyReplicas}/${service.totalReplicas} ready)${service.reason ? ` - ${service.reason}` : ''}`)
+    .join('; ');
+}
+
+/**
+ * Sleep, waking up early with a WaitCancelledError when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new WaitCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * Self-check of the server: configuration, wallet, connectivity and recent errors
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { getRecentErrors, LoggedError } from '../utils/logger.js';
+import { SpheronBackend, BackendType } from '../backend/index.js';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Outcome of one check
+ */
+export interface DiagnosticCheck {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Diagnostics report
+ */
+export interface DiagnosticsReport {
+  // Worst status of all checks
+  status: CheckStatus;
+  checks: DiagnosticCheck[];
+  recentErrors: LoggedError[];
+}
+
+/**
+ * State of the server the checks run against
+ */
+export interface DiagnosticsContext {
+  version: string;
+  network: string;
+  backend: BackendType;
+  // Account the checks run as, or the reason none could be resolved
+  wallet: { account: string; address: string; source: string } | { error: string };
+  sdk: SpheronBackend | null;
+  providerProxyUrl: string;
+  claudeApiKeyConfigured: boolean;
+  conversations: { total: number; complete: number };
+  // Maximum number of recent errors to report
+  errorLimit: number;
+  // Values removed from reported error messages
+  secrets: string[];
+}
+
+// Time allowed for each network check
+const CHECK_TIMEOUT_MS = 10000;
+
+const STATUS_ORDER: CheckStatus[] = ['pass', 'warn', 'fail'];
+
+/**
+ * Reject when a promise takes longer than the given time
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Send a HEAD request and report the HTTP status; any response means the host is reachable
+ * @param url URL to request
+ * @param timeoutMs Time allowed for the response
+ * @returns HTTP status code
+ */
+function probeUrl(url: string, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.request(url, { method: 'HEAD', timeout: timeoutMs }, res => {
+      res.resume();
+      resolve(res.statusCode || 0);
+    });
+    req.on('timeout', () => req.destroy(new Error(`No response within ${timeoutMs / 1000}s`)));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * Remove secrets from a text
+ */
+function redact(text: string, secrets: string[]): string {
+  return secrets.filter(Boolean).reduce((result, secret) => result.split(secret).join('[redacted]'), text);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check that the provider proxy answers
+ */
+async function checkProviderProxy(context: DiagnosticsContext): Promise<DiagnosticCheck> {
+  const name = 'provider_proxy';
+  if (context.backend === 'simulator') {
+    return { name, status: 'pass', message: 'Not used by the simulator backend', details: { url: context.providerProxyUrl } };
+  }
+
+  const started = Date.now();
+  try {
+    const statusCode = await probeUrl(context.providerProxyUrl, CHECK_TIMEOUT_MS);
+    return {
+      name,
+      status: statusCode >= 500 ? 'warn' : 'pass',
+      message: `Reachable (HTTP ${statusCode})`,
+      details: { url: context.providerProxyUrl, statusCode, latencyMs: Date.now() - started }
+    };
+  } catch (error) {
+    return { name, status: 'fail', message: `Unreachable: ${describeError(error)}`, details: { url: context.providerProxyUrl } };
+  }
+}
+
+/**
+ * Check that the SDK can read from the chain
+ */
+async function checkSdk(context: DiagnosticsContext): Promise<DiagnosticCheck> {
+  const name = 'sdk_connectivity';
+  if (!context.sdk || 'error' in context.wallet) {
+    return { name, status: 'fail', message: 'Skipped: no account to connect with' };
+  }
+
+  const started = Date.now();
+  try {
+    const leaseIds = await withTimeout(context.sdk.leases.getLeaseIds(context.wallet.address), CHECK_TIMEOUT_MS, 'Lease query');
+    return {
+      name,
+      status: 'pass',
+      message: `Connected to ${context.network}${context.backend === 'simulator' ? ' (simulated)' : ''}`,
+      details: { activeLeases: leaseIds.activeLeaseIds.length, latencyMs: Date.now() - started }
+    };
+  } catch (error) {
+    return { name, status: 'fail', message: `Lease query failed: ${redact(describeError(error), context.secrets)}` };
+  }
+}
+
+/**
+ * Run all checks
+ * @param context State of the server
+ * @returns Report with the status of each check and the most recent errors
+ */
+export async function runDiagnostics(context: DiagnosticsContext): Promise<DiagnosticsReport> {
+  const recentErrors = getRecentErrors(context.errorLimit).map(entry => ({
+    ...entry,
+    message: redact(entry.message, context.secrets),
+    ...(entry.error !== undefined ? { error: redact(entry.error, context.secrets) } : {})
+  }));
+
+  const checks: DiagnosticCheck[] = [
+    {
+      name: 'server',
+      status: 'pass',
+      message: `Spheron MCP server ${context.version}`,
+      details: { version: context.version, nodeVersion: process.versions.node, uptimeSeconds: Math.round(process.uptime()) }
+    },
+    {
+      name: 'network',
+      status: context.backend === 'simulator' ? 'warn' : 'pass',
+      message: context.backend === 'simulator'
+        ? `Default network ${context.network}, simulated: no transactions reach the network`
+        : `Default network ${context.network}`,
+      details: { network: context.network, backend: context.backend }
+    },
+    'error' in context.wallet
+      ? { name: 'wallet', status: 'fail', message: context.wallet.error }
+      : {
+        name: 'wallet',
+        status: 'pass',
+        message: `Account ${context.wallet.account} at ${context.wallet.address}`,
+        details: { ...context.wallet }
+      },
+    ...await Promise.all([checkProviderProxy(context), checkSdk(context)]),
+    {
+      name: 'claude_processor',
+      status: context.claudeApiKeyConfigured ? 'pass' : 'warn',
+      message: context.claudeApiKeyConfigured
+        ? 'Claude API key configured; natural_to_yaml uses Claude'
+        : 'No Claude API key; natural_to_yaml uses the template processor only'
+    },
+    {
+      name: 'conversation_store',
+      status: 'pass',
+      message: `${context.conversations.total} natural_to_yaml conversation(s) in memory`,
+      details: context.conversations
+    },
+    {
+      name: 'recent_errors',
+      status: recentErrors.length > 0 ? 'warn' : 'pass',
+      message: recentErrors.length > 0
+        ? `${recentErrors.length} recent error(s), latest at ${recentErrors[0].timestamp}: ${recentErrors[0].message}`
+        : 'No errors logged since startup'
+    }
+  ];
+
+  const status = checks.reduce<CheckStatus>(
+    (worst, check) => STATUS_ORDER.indexOf(check.status) > STATUS_ORDER.indexOf(worst) ? check.status : worst,
+    'pass'
+  );
+
+  return { status, checks, recentErrors };
+}
@@ -0,0 +1,19 @@
+/**
+ * Server self-check
+ */
+
+import {
+  runDiagnostics,
+  CheckStatus,
+  DiagnosticCheck,
+  DiagnosticsContext,
+  DiagnosticsReport
+} from './diagnostics.js';
+
+export {
+  runDiagnostics,
+  CheckStatus,
+  DiagnosticCheck,
+  DiagnosticsContext,
+  DiagnosticsReport
+};
@@ -0,0 +1,299 @@
+/**
+ * Error taxonomy: typed errors with stable codes, a retryable flag and a remediation hint
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Stable error codes reported to clients
+ */
+export type SpheronErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNKNOWN_ACCOUNT'
+  | 'UNKNOWN_NETWORK'
+  | 'UNKNOWN_TOKEN'
+  | 'UNKNOWN_OPERATION'
+  | 'INSUFFICIENT_FUNDS'
+  | 'POLICY_VIOLATION'
+  | 'IDEMPOTENCY_KEY_MISMATCH'
+  | 'IDEMPOTENCY_IN_PROGRESS'
+  | 'IDEMPOTENCY_UNRESOLVED'
+  | 'PROVIDER_UNREACHABLE'
+  | 'CHAIN_ERROR'
+  | 'LLM_ERROR'
+  | 'SERIALIZATION_FAILED'
+  | 'INTERNAL_ERROR';
+
+export type ErrorCategory = 'validation' | 'funds' | 'policy' | 'conflict' | 'provider' | 'chain' | 'llm' | 'internal';
+
+/**
+ * Options shared by all typed errors
+ */
+export interface SpheronErrorOptions {
+  code?: SpheronErrorCode;
+  retryable?: boolean;
+  hint?: string;
+  // Details passed through to the client
+  data?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base class of the typed errors. It is an McpError, so protocol handlers report it as one.
+ */
+export class SpheronError extends McpError {
+  // The MCP error code is in `code`
+  readonly errorCode: SpheronErrorCode;
+  readonly category: ErrorCategory;
+  readonly retryable: boolean;
+  readonly hint: string;
+  readonly cause?: unknown;
+
+  constructor(
+    mcpCode: ErrorCode,
+    category: ErrorCategory,
+    message: string,
+    defaults: { code: SpheronErrorCode; retryable: boolean; hint: string },
+    options: SpheronErrorOptions = {}
+  ) {
+    super(mcpCode, message, options.data);
+    this.name = 'SpheronError';
+    this.errorCode = options.code || defaults.code;
+    this.category = category;
+    this.retryable = options.retryable ?? defaults.retryable;
+    this.hint = options.hint || defaults.hint;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Fields added to failed tool responses
+   */
+  toResponse(): { code: SpheronErrorCode; category: ErrorCategory; retryable: boolean; hint: string } {
+    return { code: this.errorCode, category: this.category, retryable: this.retryable, hint: this.hint };
+  }
+}
+
+/**
+ * Invalid arguments, or references to accounts, networks, tokens or records that do not exist
+ */
+export class ValidationError extends SpheronError {
+  constructor(message: string, options: SpheronErrorOptions = {}) {
+    super(ErrorCode.InvalidParams, 'validation', message, {
+      code: 'VALIDATION_FAILED',
+      retryable: false,
+      hint: 'Correct the arguments and try again.'
+    }, options);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The escrow balance does not cover the operation
+ */
+export class InsufficientFundsError extends SpheronError {
+  constructor(message: string, options: SpheronErrorOptions = {}) {
+    super(ErrorCode.InvalidParams, 'funds', message, {
+      code: 'INSUFFICIENT_FUNDS',
+      retryable: false,
+      hint: 'Deposit funds with deposit_escrow, or reduce the resources or duration of the deployment.'
+    }, options);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * The spending policy blocks the operation
+ */
+export class PolicyError extends SpheronError {
+  constructor(message: string, options: SpheronErrorOptions = {}) {
+    super(ErrorCode.InvalidRequest, 'policy', message, {
+      code: 'POLICY_VIOLATION',
+      retryable: false,
+      hint: 'Stay within the spending policy, or ask the operator to change it.'
+    }, options);
+    this.name = 'PolicyError';
+  }
+}
+
+/**
+ * An idempotency key is in use by another call
+ */
+export class ConflictError extends SpheronError {
+  constructor(message: string, options: SpheronErrorOptions = {}) {
+    super(ErrorCode.InvalidRequest, 'conflict', message, {
+      code: 'IDEMPOTENCY_KEY_MISMATCH',
+      retryable: false,
+      hint: 'Use a new idempotency key for a different request.'
+    }, options);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * The provider proxy or the provider could not be reached
+ */
+export class ProviderUnreachableError extends SpheronError {
+  constructor(message: string, options: SpheronErrorOptions = {}) {
+    super(ErrorCode.InternalError, 'provider', message, {
+      code: 'PROVIDER_UNREACHABLE',
+      retryable: true,
+      hint: 'Try again shortly. If it persists, check provider_proxy_url or run diagnostics.'
+    }, options);
+    this.name = 'ProviderUnreachableError';
+  }
+}
+
+/**
+ * The SDK or the chain rejected or failed the operation
+ */
+export class ChainError extends SpheronError {
+  constructor(message: string, options: SpheronErrorOptions = {}) {
+    super(ErrorCode.InternalError, 'chain', message, {
+      code: 'CHAIN_ERROR',
+      retryable: false,
+      hint: 'Check the arguments and the account balance, or run diagnostics.'
+    }, options);
+    this.name = 'ChainError';
+  }
+}
+
+/**
+ * The Claude API failed
+ */
+export class LlmError extends SpheronError {
+  constructor(message: string, options: SpheronErrorOptions = {}) {
+    super(ErrorCode.InternalError, 'llm', message, {
+      code: 'LLM_ERROR',
+      retryable: false,
+      hint: 'Check CLAUDE_API_KEY, or describe the deployment in more detail for the template processor.'
+    }, options);
+    this.name = 'LlmError';
+  }
+}
+
+/**
+ * Any other failure inside the server
+ */
+export class InternalError extends SpheronError {
+  constructor(message: string, options: SpheronErrorOptions = {}) {
+    super(ErrorCode.InternalError, 'internal', message, {
+      code: 'INTERNAL_ERROR',
+      retryable: false,
+      hint: 'Run diagnostics and check the server logs.'
+    }, options);
+    this.name = 'InternalError';
+  }
+}
+
+// Messages and codes of network failures that usually pass on their own
+const TRANSIENT_PATTERNS = [
+  /ECONNRESET/,
+  /ECONNREFUSED/,
+  /ETIMEDOUT/,
+  /ESOCKETTIMEDOUT/,
+  /ENOTFOUND/,
+  /EAI_AGAIN/,
+  /EPIPE/,
+  /socket hang up/i,
+  /network error/i,
+  /timed? ?out/i,
+  /fetch failed/i,
+  /too many requests/i,
+  /\b(429|502|503|504)\b/
+];
+
+// Error codes set by ethers for failures of the RPC connection
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR'];
+
+const INSUFFICIENT_FUNDS_PATTERN = /insufficient (funds|balance)/i;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Message of a thrown value, without the "MCP error <code>: " prefix of MCP errors
+ * @param error Thrown value
+ * @returns Message
+ */
+export function describeError(error: unknown): string {
+  const message = errorMessage(error);
+  return error instanceof McpError ? message.replace(/^MCP error -?\d+: /, '') : message;
+}
+
+function codeOf(error: unknown): string | undefined {
+  if (typeof error === 'object' && error !== null && 'code' in error) {
+    const code = (error as { code: unknown }).code;
+    return typeof code === 'string' ? code : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Check whether an error is a network failure worth retrying
+ * @param error Error thrown by the SDK or an HTTP request
+ * @returns True for transient network failures
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof SpheronError) {
+    return error.retryable;
+  }
+  const code = codeOf(error);
+  if (code && TRANSIENT_CODES.includes(code)) {
+    return true;
+  }
+  const message = errorMessage(error);
+  return TRANSIENT_PATTERNS.some(pattern => pattern.test(message));
+}
+
+/**
+ * Check whether an error reports that a wallet cannot pay for a transaction
+ */
+export function isInsufficientFundsError(error: unknown): boolean {
+  return codeOf(error) === 'INSUFFICIENT_FUNDS' || INSUFFICIENT_FUNDS_PATTERN.test(errorMessage(error));
+}
+
+/**
+ * Map any thrown value to a typed error
+ * @param error Thrown value
+ * @returns The error itself if it is typed, otherwise the closest typed error
+ */
+export function classifyError(error: unknown): SpheronError {
+  if (error instanceof SpheronError) {
+    return error;
+  }
+
+  if (error instanceof McpError) {
+    // The new error adds the "MCP error <code>: " prefix again
+    const message = describeError(error);
+    if (error.code === ErrorCode.MethodNotFound) {
+      return new ValidationError(message, { code: 'UNKNOWN_OPERATION', data: error.data, cause: error });
+    }
+    if (error.code === ErrorCode.InvalidParams || error.code === ErrorCode.InvalidRequest) {
+      return new ValidationError(message, { data: error.data, cause: error });
+    }
+    return new InternalError(message, { data: error.data, cause: error });
+  }
+
+  const message = errorMessage(error);
+
+  if (error instanceof TypeError && /BigInt/.test(message) && /serializ/i.test(message)) {
+    return new InternalError(`Failed to serialize the response: ${message}`, {
+      code: 'SERIALIZATION_FAILED',
+      hint: 'The operation may have completed. Check list_leases or fetch_balance before repeating it.',
+      cause: error
+    });
+  }
+  if (isInsufficientFundsError(error)) {
+    return new InsufficientFundsError(message, { cause: error });
+  }
+  if (isTransientError(error)) {
+    return new ChainError(message, {
+      retryable: true,
+      hint: 'A network failure interrupted the operation. Try again shortly, or run diagnostics if it persists.',
+      cause: error
+    });
+  }
+
+  return new InternalError(message, { cause: error });
+}
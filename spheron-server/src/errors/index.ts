@@ -0,0 +1,51 @@
+/**
+ * Typed errors and retries
+ */
+
+import {
+  SpheronError,
+  ValidationError,
+  InsufficientFundsError,
+  PolicyError,
+  ConflictError,
+  ProviderUnreachableError,
+  ChainError,
+  LlmError,
+  InternalError,
+  classifyError,
+  describeError,
+  isTransientError,
+  isInsufficientFundsError,
+  SpheronErrorCode,
+  SpheronErrorOptions,
+  ErrorCategory
+} from './errors.js';
+import {
+  withRetry,
+  backoffDelay,
+  DEFAULT_RETRY_OPTIONS,
+  RetryOptions
+} from './retry.js';
+
+export {
+  SpheronError,
+  ValidationError,
+  InsufficientFundsError,
+  PolicyError,
+  ConflictError,
+  ProviderUnreachableError,
+  ChainError,
+  LlmError,
+  InternalError,
+  classifyError,
+  describeError,
+  isTransientError,
+  isInsufficientFundsError,
+  SpheronErrorCode,
+  SpheronErrorOptions,
+  ErrorCategory,
+  withRetry,
+  backoffDelay,
+  DEFAULT_RETRY_OPTIONS,
+  RetryOptions
+};
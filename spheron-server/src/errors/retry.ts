@@ -0,0 +1,59 @@
+/**
+ * Retries with exponential backoff for transient failures
+ */
+
+import { isTransientError } from './errors.js';
+
+/**
+ * Retry settings
+ */
+export interface RetryOptions {
+  // Total number of attempts, including the first
+  attempts: number;
+  // Delay before the first retry; doubled for each further retry
+  initialDelayMs: number;
+  // Upper bound of the delay
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  attempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 5000
+};
+
+/**
+ * Delay before a retry
+ * @param retry Number of the retry, starting at 1
+ * @param options Retry settings
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(retry: number, options: RetryOptions): number {
+  return Math.min(options.initialDelayMs * 2 ** (retry - 1), options.maxDelayMs);
+}
+
+/**
+ * Call a function, calling it again after transient failures
+ * @param fn Function to call
+ * @param options Retry settings
+ * @param onRetry Called before each retry with the failure and the delay
+ * @returns Result of the first successful call
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (error: unknown, retry: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.attempts || !isTransientError(error)) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, options);
+      onRetry?.(error, attempt, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
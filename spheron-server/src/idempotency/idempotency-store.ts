@@ -0,0 +1,185 @@
+/**
+ * Persistent store of idempotency keys, so a repeated call returns the result of
+ * the original call instead of spending again
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getDataFile, readJsonFile, writeJsonFile } from '../utils/storage.js';
+import { getConfig } from '../config/index.js';
+
+// Identifies this server process, to tell calls still running from calls a restart interrupted
+const INSTANCE_ID = randomBytes(8).toString('hex');
+
+/**
+ * Account, network and key a call is made with. Keys are unique per account and network.
+ */
+export interface IdempotencyScope {
+  key: string;
+  account: string;
+  network: string;
+}
+
+/**
+ * A call made with an idempotency key
+ */
+export interface IdempotencyEntry extends IdempotencyScope {
+  operation: string;
+  // Hash of the arguments a repeated call must match
+  fingerprint: string;
+  // Unresolved: the call failed after the transaction was sent, so it may have gone through
+  status: 'pending' | 'completed' | 'unresolved';
+  // Server process that made the call
+  instanceId: string;
+  // Response of the completed call
+  result: Record<string, unknown> | null;
+  // Failure of an unresolved call
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * State of a key when a call starts
+ * - new: the key was reserved for this call
+ * - completed: an earlier call with the same arguments finished; its result is in the entry
+ * - in_progress: an earlier call with the same arguments is still running
+ * - unresolved: an earlier call failed after sending its transaction, or was running when the
+ *   server stopped; it may or may not have gone through
+ * - mismatch: the key was used for different arguments
+ */
+export type IdempotencyState = 'new' | 'completed' | 'in_progress' | 'unresolved' | 'mismatch';
+
+/**
+ * Get the path of the store file
+ */
+function getStorePath(): string {
+  return getDataFile('idempotency-keys.json');
+}
+
+function entryId(scope: IdempotencyScope): string {
+  return `${scope.network}:${scope.account}:${scope.key}`;
+}
+
+/**
+ * Read the entries that are still inside the window, keyed by network, account and key
+ */
+function readEntries(now: number): Record<string, IdempotencyEntry> {
+  const windowMs = getConfig().idempotencyWindowHours * 60 * 60 * 1000;
+  const entries = readJsonFile<Record<string, IdempotencyEntry>>(getStorePath(), {});
+
+  return Object.fromEntries(
+    Object.entries(entries).filter(([, entry]) => now - Date.parse(entry.createdAt) < windowMs)
+  );
+}
+
+/**
+ * Hash the arguments of a call
+ * @param operation Operation name, or the name shared by aliases of the operation
+ * @param args Arguments that a repeated call must match
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function fingerprintCall(operation: string, args: Record<string, string>): string {
+  const sorted = Object.keys(args).sort().map(key => [key, args[key]]);
+  return createHash('sha256').update(JSON.stringify([operation, sorted])).digest('hex');
+}
+
+/**
+ * Start a call with an idempotency key. A new key is reserved for the call;
+ * a known key reports the state of the earlier call.
+ * @param scope Account, network and key
+ * @param operation Operation name
+ * @param fingerprint Hash of the call's arguments
+ * @param now Current time in milliseconds
+ * @returns State of the key, with the earlier call unless the key is new
+ */
+export function beginIdempotentCall(
+  scope: IdempotencyScope,
+  operation: string,
+  fingerprint: string,
+  now: number = Date.now()
+): { state: IdempotencyState; entry: IdempotencyEntry } {
+  const entries = readEntries(now);
+  const existing = entries[entryId(scope)];
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return { state: 'mismatch', entry: existing };
+    }
+    if (existing.status === 'completed') {
+      return { state: 'completed', entry: existing };
+    }
+    if (existing.status === 'pending' && existing.instanceId === INSTANCE_ID) {
+      return { state: 'in_progress', entry: existing };
+    }
+    return { state: 'unresolved', entry: existing };
+  }
+
+  const entry: IdempotencyEntry = {
+    ...scope,
+    operation,
+    fingerprint,
+    status: 'pending',
+    instanceId: INSTANCE_ID,
+    result: null,
+    error: null,
+    createdAt: new Date(now).toISOString(),
+    completedAt: null
+  };
+  entries[entryId(scope)] = entry;
+  writeJsonFile(getStorePath(), entries);
+
+  return { state: 'new', entry };
+}
+
+/**
+ * Store the result of a call, so repeated calls return it
+ * @param scope Account, network and key
+ * @param result Response of the call
+ * @param now Current time in milliseconds
+ */
+export function completeIdempotentCall(scope: IdempotencyScope, result: Record<string, unknown>, now: number = Date.now()): void {
+  const entries = readEntries(now);
+  const entry = entries[entryId(scope)];
+  if (!entry) {
+    return;
+  }
+
+  entry.status = 'completed';
+  entry.result = result;
+  entry.completedAt = new Date(now).toISOString();
+  writeJsonFile(getStorePath(), entries);
+}
+
+/**
+ * Record that a call failed after sending its transaction. Repeated calls report it
+ * instead of sending the transaction again.
+ * @param scope Account, network and key
+ * @param error Failure of the call
+ * @param now Current time in milliseconds
+ */
+export function markIdempotentCallUnresolved(scope: IdempotencyScope, error: string, now: number = Date.now()): void {
+  const entries = readEntries(now);
+  const entry = entries[entryId(scope)];
+  if (!entry) {
+    return;
+  }
+
+  entry.status = 'unresolved';
+  entry.error = error;
+  writeJsonFile(getStorePath(), entries);
+}
+
+/**
+ * Release the key of a call that failed before sending its transaction, so it can be used again
+ * @param scope Account, network and key
+ * @param now Current time in milliseconds
+ */
+export function releaseIdempotentCall(scope: IdempotencyScope, now: number = Date.now()): void {
+  const entries = readEntries(now);
+  if (entries[entryId(scope)]?.status !== 'pending') {
+    return;
+  }
+
+  delete entries[entryId(scope)];
+  writeJsonFile(getStorePath(), entries);
+}
@@ -0,0 +1,25 @@
+/**
+ * Idempotency keys for operations that spend funds
+ */
+
+import {
+  beginIdempotentCall,
+  completeIdempotentCall,
+  markIdempotentCallUnresolved,
+  releaseIdempotentCall,
+  fingerprintCall,
+  IdempotencyScope,
+  IdempotencyEntry,
+  IdempotencyState
+} from './idempotency-store.js';
+
+export {
+  beginIdempotentCall,
+  completeIdempotentCall,
+  markIdempotentCallUnresolved,
+  releaseIdempotentCall,
+  fingerprintCall,
+  IdempotencyScope,
+  IdempotencyEntry,
+  IdempotencyState
+};
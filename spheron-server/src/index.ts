@@ -3,7 +3,7 @@
 /**
  * Node.js version check
  */
-const requiredNodeVersion = '16.0.0';
+const requiredNodeVersion = '18.0.0';
 const currentNodeVersion = process.versions.node;
 
 function compareVersions(v1: string, v2: string): number {
@@ -35,453 +35,2332 @@ if (compareVersions(currentNodeVersion, requiredNodeVersion) < 0) {
  * - Deployment of compute resources
  * - Fetching wallet balances
  * - Fetching deployment URLs
+ * - Waiting for deployments to become ready, with progress notifications
  * - Fetching lease IDs
+ * - Listing leases of a wallet
+ * - Keeping a local registry of deployments created through the server
+ * - Estimating deployment costs
+ * - Depositing to and withdrawing from escrow
  * - Deploying custom YAML files
  * - Converting natural language to YAML
+ * - Exposing leases, conversations, balances and the ICL schema as resources
+ * - Prompts for guided deployment workflows
+ * - Closing, updating and extending deployments
+ * - Enforcing a spending policy on deployments and escrow movements
+ * - Named wallet accounts and per-request networks, with an SDK client for each pair
+ * - Serving over stdio, or over HTTP (SSE) to several clients at once
+ * - A validated configuration file with environment variable overrides
+ * - An offline simulator backend for demos and development
+ * - A diagnostics self-check
+ * - Typed errors with codes and remediation hints, and retries of transient failures
+ * - Idempotency keys for deployments and escrow movements, and warnings about duplicate deployments
+ * - Validating ICL YAML against the schema, with cross-reference checks
+ * - A catalog of deployment templates
+ * - Converting docker-compose files to YAML
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
+  CallToolResult,
+  GetPromptRequest,
+  ListResourcesResult,
+  ReadResourceRequest,
+  ReadResourceResult,
+  SubscribeRequest,
+  ServerRequest,
+  ServerNotification,
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
-import { SpheronSDK } from "@spheron/protocol-sdk";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import pkg from 'fs-extra';
 const { readFile } = pkg;
 import * as path from 'path';
 
 // Import logger
-import logger from './utils/logger.js';
+import logger, { LogLevel, setLogLevel } from './utils/logger.js';
 
 // Import natural language processor
-import { processDescription, generateQuestion, ExtractedParams } from './natural-language-processor/index.js';
+import { processDescription, generateQuestion, listServices, ExtractedParams } from './natural-language-processor/index.js';
 
 // Import YAML generator
-import { generateYamlFromParams, validateYamlConfig, updateYamlConfig } from './yaml-generator/index.js';
+import {
+  generateYamlFromParams,
+  validateYamlConfig,
+  validateIclYaml,
+  formatIclIssue,
+  updateYamlConfig,
+  setYamlDuration,
+  YamlUpdateError
+} from './yaml-generator/index.js';
+
+// Import deployment templates
+import {
+  listTemplates,
+  getTemplate,
+  createTemplateService,
+  summarizeTemplate,
+  TemplateCategory
+} from './templates/index.js';
+
+// Import docker-compose conversion
+import { convertCompose, ComposeError } from './compose/index.js';
+
+// Import pricing
+import {
+  estimateYamlCost,
+  estimateParamsCost,
+  getRateTable,
+  CostEstimate
+} from './pricing/index.js';
+
+// Import tool definitions and argument validation
+import {
+  DISPATCHER_TOOL_NAME,
+  buildDispatcherTool,
+  getOperationTool,
+  listTools,
+  validateToolArguments
+} from './tools/index.js';
+
+// Import lease listing helpers
+import {
+  sortLeaseIds,
+  paginate,
+  summarizeLease,
+  LeaseDetails,
+  LeaseStateFilter,
+  LeaseSortOrder
+} from './leases/index.js';
+
+// Import token registry and exact token amounts
+import {
+  getToken,
+  getTokens,
+  TokenAmount,
+  TokenInfo,
+  UnknownTokenError
+} from './tokens/index.js';
+
+// Import spending policy
+import {
+  getPolicy,
+  evaluateDeployment,
+  evaluateEscrowTransfer,
+  enforcePolicy,
+  recordSpend,
+  setSpendLease,
+  removeSpend,
+  PolicyViolation,
+  PolicyViolationError,
+  SpendEntry
+} from './policy/index.js';
+
+// Import local deployment registry
+import {
+  recordDeployment,
+  markDeploymentClosed,
+  getDeploymentRecord,
+  listDeploymentRecords,
+  findDeploymentsByLabel,
+  findRecentDuplicates,
+  hashYamlContent,
+  DeploymentRecord,
+  DeploymentStatus,
+  waitForReady,
+  WaitResult
+} from './deployments/index.js';
+
+// Import MCP resources
+import {
+  ICL_SCHEMA,
+  ICL_SCHEMA_URI,
+  RESOURCE_TEMPLATES,
+  leaseUri,
+  conversationUri,
+  balanceUri,
+  parseResourceUri,
+  configureLeaseWatcher,
+  subscribe,
+  unsubscribe,
+  removeSubscriber,
+  getSubscribers,
+  checkLeaseSubscriptions
+} from './resources/index.js';
+
+// Import named wallet accounts
+import {
+  loadAccounts,
+  getAccount,
+  getDefaultAccountName,
+  listAccounts,
+  getSdkClient,
+  UnknownAccountError,
+  NetworkNotServedError,
+  Account
+} from './accounts/index.js';
+
+// Import Spheron backends
+import { SpheronBackend } from './backend/index.js';
+
+// Import diagnostics
+import { runDiagnostics, DiagnosticsContext } from './diagnostics/index.js';
+
+// Import typed errors
+import {
+  ValidationError,
+  InsufficientFundsError,
+  PolicyError,
+  ConflictError,
+  InternalError,
+  classifyError,
+  describeError
+} from './errors/index.js';
+
+// Import known networks
+import { parseNetwork, UnknownNetworkError, Network } from './networks/index.js';
+
+// Import configuration
+import { loadConfig, getLoadedConfig, redactConfig, ConfigError, ServerConfig } from './config/index.js';
+
+// Import HTTP transport
+import { startHttpTransport } from './transport/index.js';
+
+// Import prompts
+import { listPrompts, renderPrompt, PromptArgumentError } from './prompts/index.js';
+
+// Import two-step confirmation
+import { createConfirmation, consumeConfirmation } from './confirmation/index.js';
+
+// Import idempotency keys
+import {
+  beginIdempotentCall,
+  completeIdempotentCall,
+  markIdempotentCallUnresolved,
+  releaseIdempotentCall,
+  fingerprintCall,
+  IdempotencyScope
+} from './idempotency/index.js';
 
 // Import conversation manager
 import { 
   createConversation, 
   getConversation, 
+  listConversations,
   updateConversation, 
   completeConversation,
+  deleteSessionConversations,
   ConversationState
 } from './conversation/index.js';
 
-// Environment variables for Spheron SDK
-const SPHERON_PRIVATE_KEY = process.env.SPHERON_PRIVATE_KEY;
-const SPHERON_NETWORK = process.env.SPHERON_NETWORK || "testnet";
-const DEFAULT_PROVIDER_PROXY_URL = process.env.PROVIDER_PROXY_URL || "https://provider-proxy.spheron.network";
-const CLAUDE_API_KEY = process.env.CLAUDE_API_KEY;
+// Load the configuration first: the config file, overridden by environment variables.
+// An invalid configuration stops the server with every invalid setting listed.
+let config: ServerConfig;
+try {
+  const loadedConfig = loadConfig();
+  config = loadedConfig.config;
+  setLogLevel(LogLevel[config.logLevel.toUpperCase() as keyof typeof LogLevel]);
+  logger.info('Setup', `Configuration file: ${loadedConfig.file || 'none'}`);
+} catch (error) {
+  if (error instanceof ConfigError) {
+    logger.error('Setup', error.message);
+  } else {
+    logger.error('Setup', 'Failed to load configuration', error);
+  }
+  process.exit(1);
+}
+
+// Settings of the Spheron SDK (accounts are loaded at startup)
+const DEFAULT_PROVIDER_PROXY_URL = config.providerProxyUrl;
+const CLAUDE_API_KEY = config.claudeApiKey;
+const RESOURCE_POLL_SECONDS = config.resourcePollSeconds;
 
-// Log environment configuration (without sensitive data)
-logger.info('Setup', `Starting Spheron MCP server with network: ${SPHERON_NETWORK}`);
+// Transport settings: "stdio" (default) or "http"
+const SPHERON_TRANSPORT = config.transport.type;
+const SHUTDOWN_GRACE_SECONDS = config.transport.shutdownGraceSeconds;
+
+// Log configuration (without sensitive data)
 logger.info('Setup', `Provider proxy URL: ${DEFAULT_PROVIDER_PROXY_URL}`);
 logger.info('Setup', `Claude API available: ${Boolean(CLAUDE_API_KEY)}`);
+logger.info('Setup', `Transport: ${SPHERON_TRANSPORT}`);
+if (config.backend.type === 'simulator') {
+  logger.warn('Setup', 'Using the simulated Spheron backend: no transactions reach the network');
+}
+
+// Version reported to clients and by diagnostics
+const SERVER_VERSION = "0.1.0";
+
+// Warn when less than this many hours of a deployment's hourly cost would
+// remain after its full duration has been paid for
+const BALANCE_WARNING_HOURS = config.deployment.balanceWarningHours;
+
+/**
+ * Helper function to look up a token in the token registry
+ * @param symbol The token symbol (e.g., 'CST', 'USDC')
+ * @param network Network the token is used on
+ * @returns Token information for the network
+ */
+function resolveToken(symbol: string, network: Network): TokenInfo {
+  try {
+    return getToken(symbol, network);
+  } catch (error) {
+    if (error instanceof UnknownTokenError) {
+      throw new ValidationError(error.message, {
+        code: 'UNKNOWN_TOKEN',
+        hint: 'Use one of the supported tokens.',
+        data: { token: error.symbol, network: error.network, supportedTokens: error.knownSymbols }
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Account and network an operation runs as, with the SDK client for them
+ */
+interface OperationClient {
+  account: Account;
+  network: Network;
+  sdk: SpheronBackend;
+}
+
+/**
+ * Helper function to fetch an escrow balance with exact formatted amounts
+ * @param sdk SDK client of the account
+ * @param token Token information
+ * @param walletAddress Optional wallet address (defaults to the account's wallet)
+ * @returns Raw balance, formatted balance and the unlocked amount
+ */
+async function fetchFormattedBalance(sdk: SpheronBackend, token: TokenInfo, walletAddress?: string): Promise<{
+  balance: any;
+  formattedBalance: {
+    lockedBalance: { raw: string; formatted: string };
+    unlockedBalance: { raw: string; formatted: string };
+    token: any;
+    decimals: number;
+  };
+  unlocked: TokenAmount;
+  locked: TokenAmount;
+}> {
+  const balance = await sdk.escrow.getUserBalance(token.symbol, walletAddress);
+
+  // Handle BigInt serialization
+  const safeBalance = toJsonSafe(balance);
+
+  const locked = TokenAmount.fromRaw(safeBalance.lockedBalance, token.decimals);
+  const unlocked = TokenAmount.fromRaw(safeBalance.unlockedBalance, token.decimals);
+
+  return {
+    balance: safeBalance,
+    formattedBalance: {
+      lockedBalance: locked.toJSON(),
+      unlockedBalance: unlocked.toJSON(),
+      token: safeBalance.token,
+      decimals: token.decimals
+    },
+    unlocked,
+    locked
+  };
+}
+
+/**
+ * Helper function to check if user has sufficient balance for deployment
+ * @param client Account and network of the deployment
+ * @param token The token symbol (e.g., 'CST')
+ * @param walletAddress Optional wallet address (defaults to the account's wallet)
+ * @param cost Estimated cost of the deployment
+ * @param amount Amount the balance must cover (defaults to the total cost)
+ * @returns Object containing balance check result and formatted balance information
+ */
+async function checkSufficientBalance(
+  client: OperationClient,
+  token: string,
+  walletAddress: string | undefined,
+  cost: CostEstimate,
+  amount: number = cost.totalCost
+): Promise<{
+  sufficient: boolean;
+  lowBalance: boolean;
+  balance: any;
+  formattedBalance: Awaited<ReturnType<typeof fetchFormattedBalance>>['formattedBalance'];
+  requiredBalance: string;
+  warningThreshold: string;
+  message: string;
+}> {
+  logger.info('API', `Checking ${token} balance for deployment`);
+  
+  const tokenInfo = resolveToken(token, client.network);
+  const { balance, formattedBalance, unlocked } = await fetchFormattedBalance(client.sdk, tokenInfo, walletAddress);
+  
+  // The balance must cover the deployment for its whole duration, or what an update adds to it
+  const required = TokenAmount.fromDecimal(amount, tokenInfo.decimals, 'up');
+  const threshold = required.add(
+    TokenAmount.fromDecimal(cost.hourlyCost * BALANCE_WARNING_HOURS, tokenInfo.decimals, 'up')
+  );
+  const sufficient = unlocked.gte(required);
+  const lowBalance = sufficient && unlocked.lt(threshold);
+  
+  // Create appropriate message
+  let message = '';
+  if (!sufficient) {
+    message = amount === cost.totalCost
+      ? `Insufficient balance: You have ${unlocked} ${token}, but this deployment costs an estimated ${required} ${token} (${cost.hourlyCost} ${token}/hour for ${cost.duration}).`
+      : `Insufficient balance: You have ${unlocked} ${token}, but this change adds an estimated ${required} ${token} to the cost of the lease (now ${cost.totalCost} ${token}: ${cost.hourlyCost} ${token}/hour for ${cost.duration}).`;
+  } else if (lowBalance) {
+    message = `Warning: Your balance of ${unlocked} ${token} covers this deployment's estimated cost of ${required} ${token}, but leaves little headroom. We recommend at least ${threshold} ${token}.`;
+  } else {
+    message = `Your balance of ${unlocked} ${token} is sufficient for this deployment (estimated cost: ${required} ${token}).`;
+  }
+  
+  return {
+    sufficient,
+    lowBalance,
+    balance,
+    formattedBalance,
+    requiredBalance: required.format(),
+    warningThreshold: threshold.format(),
+    message
+  };
+}
+
+/**
+ * Helper function to convert SDK responses into JSON-safe values
+ * @param value Value that may contain BigInt fields
+ * @returns Copy of the value with BigInt fields converted to strings
+ */
+function toJsonSafe(value: unknown): any {
+  return JSON.parse(JSON.stringify(value, (key, item) =>
+    typeof item === 'bigint' ? item.toString() : item
+  ));
+}
+
+/**
+ * Helper function to read a file named by a path argument. Over HTTP the server
+ * is shared and its files are not the client's, so path arguments are refused.
+ * @param argName Name of the path argument
+ * @param contentArgName Name of the argument that takes the content instead
+ * @param filePath Path of the file
+ * @returns File content
+ */
+async function readPathArgument(argName: string, contentArgName: string, filePath: string): Promise<string> {
+  if (config.transport.type === 'http') {
+    throw new ValidationError(`${argName} is not available over HTTP: the server does not read its own files for remote clients`, {
+      hint: `Send the file's content in ${contentArgName} instead.`
+    });
+  }
+
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Failed to read ${argName}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Helper function to read YAML content from the yaml_content or yaml_path argument
+ * @param args Operation arguments
+ * @returns YAML content
+ */
+async function resolveYamlContent(args: Record<string, unknown>): Promise<string> {
+  if (args.yaml_content) {
+    return args.yaml_content as string;
+  }
+
+  if (args.yaml_path) {
+    return readPathArgument('yaml_path', 'yaml_content', args.yaml_path as string);
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    "Either yaml_content or yaml_path must be provided"
+  );
+}
+
+/**
+ * Helper function to update the existing_yaml of natural_to_yaml, keeping its comments and formatting
+ * @param existingYaml YAML configuration to update
+ * @param params Extracted parameters
+ * @param args Operation arguments, which may name the service, compute profile and placement to update
+ * @returns Updated YAML configuration
+ */
+function updateExistingYaml(existingYaml: string, params: ExtractedParams, args: Record<string, unknown>): string {
+  if (Object.keys(params).length === 0) {
+    throw new ValidationError('The description sets nothing to change in existing_yaml', {
+      hint: 'Name the values to change, e.g. "use 2 GPUs for 4 hours".'
+    });
+  }
+
+  try {
+    return updateYamlConfig(existingYaml, params, {
+      service: args.target_service as string | undefined,
+      profile: args.target_profile as string | undefined,
+      region: args.target_region as string | undefined
+    });
+  } catch (error) {
+    if (error instanceof YamlUpdateError) {
+      throw new ValidationError(`Unable to update existing_yaml: ${error.message}`, {
+        hint: 'Fix existing_yaml, or name the part to update with target_service, target_profile or target_region.',
+        data: { path: error.path }
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Helper function to fetch a summary of a lease's on-chain state
+ * @param sdk SDK client
+ * @param leaseId Lease ID
+ * @returns Lease state summary
+ */
+async function getLeaseSnapshot(sdk: SpheronBackend, leaseId: string): Promise<{
+  leaseId: string;
+  state: string;
+  providerAddress: string;
+  acceptedPrice: string;
+  startTime: number;
+  endTime: number;
+}> {
+  const lease = toJsonSafe(await sdk.leases.getLeaseDetails(leaseId));
+
+  return {
+    leaseId,
+    state: lease.state,
+    providerAddress: lease.providerAddress,
+    acceptedPrice: String(lease.acceptedPrice),
+    startTime: Number(lease.startTime),
+    endTime: Number(lease.endTime)
+  };
+}
+
+/**
+ * Helper function to estimate the cost of a YAML configuration for a balance check
+ * @param yamlContent YAML configuration
+ * @returns Cost estimate
+ */
+function estimateDeploymentCost(yamlContent: string): CostEstimate {
+  try {
+    return estimateYamlCost(yamlContent);
+  } catch (error) {
+    throw new ValidationError(
+      `Unable to estimate the deployment cost: ${error instanceof Error ? error.message : String(error)}`,
+      { hint: 'Check that the YAML is a valid ICL configuration with a pricing amount for each profile.' }
+    );
+  }
+}
+
+/**
+ * Helper function to ensure the balance covers a deployment, throwing if it does not
+ * @param client Account and network of the deployment
+ * @param token The token symbol (e.g., 'CST')
+ * @param walletAddress Optional wallet address (defaults to the account's wallet)
+ * @param cost Estimated cost of the deployment
+ * @param amount Amount the balance must cover (defaults to the total cost)
+ * @returns Balance check result
+ */
+async function requireSufficientBalance(
+  client: OperationClient,
+  token: string,
+  walletAddress: string | undefined,
+  cost: CostEstimate,
+  amount: number = cost.totalCost
+) {
+  const balanceCheck = await checkSufficientBalance(client, token, walletAddress, cost, amount);
+
+  if (!balanceCheck.sufficient) {
+    throw new InsufficientFundsError(balanceCheck.message, {
+      data: { token, requiredBalance: balanceCheck.requiredBalance, balance: balanceCheck.formattedBalance }
+    });
+  }
+
+  // If balance is low but sufficient, log a warning
+  if (balanceCheck.lowBalance) {
+    logger.warn('API', balanceCheck.message);
+  }
+
+  return balanceCheck;
+}
+
+/**
+ * Helper function to summarize a balance check for operation responses
+ * @param balanceCheck Balance check result
+ * @param token The token symbol
+ * @returns Balance information
+ */
+function summarizeBalance(balanceCheck: Awaited<ReturnType<typeof checkSufficientBalance>>, token: string) {
+  return {
+    currentBalance: balanceCheck.formattedBalance.unlockedBalance.formatted,
+    token: token,
+    requiredBalance: balanceCheck.requiredBalance,
+    recommendedBalance: balanceCheck.warningThreshold,
+    warning: balanceCheck.lowBalance ? balanceCheck.message : null
+  };
+}
+
+/**
+ * Helper function to pick the token a deployment is paid in, which is the token
+ * of its YAML pricing. A token argument must name that same token.
+ * @param requestedToken Token argument of the operation, if any
+ * @param cost Cost estimate of the YAML configuration
+ * @returns Token symbol
+ * @throws ValidationError if the token argument names another token
+ */
+function resolvePaymentToken(requestedToken: string | undefined, cost: CostEstimate): string {
+  if (requestedToken && requestedToken.toUpperCase() !== cost.token.toUpperCase()) {
+    throw new ValidationError(`The YAML is priced in ${cost.token}, so the deployment cannot be paid in ${requestedToken}`, {
+      hint: `Leave out token, or set it to ${cost.token}.`,
+      data: { token: requestedToken, pricingToken: cost.token }
+    });
+  }
+  return cost.token;
+}
+
+/**
+ * Helper function to plan a deployment without creating it
+ * @param client Account and network of the deployment
+ * @param operation Operation name
+ * @param yamlContent YAML configuration to deploy
+ * @param validation Validation result of the YAML configuration
+ * @param requestedToken Token argument of the operation, if any; the YAML pricing token is used
+ * @param walletAddress Optional wallet address (defaults to the account's wallet)
+ * @returns Deployment plan with validation, cost and balance information
+ */
+async function planDeployment(
+  client: OperationClient,
+  operation: string,
+  yamlContent: string,
+  validation: { valid: boolean; errors: string[]; warnings: string[] },
+  requestedToken: string | undefined,
+  walletAddress?: string
+) {
+  let cost: CostEstimate | null = null;
+  let costError: string | null = null;
+
+  try {
+    cost = estimateYamlCost(yamlContent);
+  } catch (error) {
+    costError = error instanceof Error ? error.message : String(error);
+  }
+
+  const token = cost ? resolvePaymentToken(requestedToken, cost) : requestedToken || 'CST';
+  const balanceCheck = cost ? await checkSufficientBalance(client, token, walletAddress, cost) : null;
+  const violations = evaluateDeployment({ operation, yamlContent, cost });
+  const wouldDeploy = validation.valid
+    && balanceCheck !== null
+    && balanceCheck.sufficient
+    && violations.length === 0;
+
+  let message: string;
+  if (!validation.valid) {
+    message = `The YAML configuration is invalid: ${validation.errors.join('; ')}`;
+  } else if (violations.length > 0) {
+    message = `Blocked by spending policy: ${violations.map(item => item.message).join('; ')}`;
+  } else if (!cost || !balanceCheck) {
+    message = `Unable to estimate the deployment cost: ${costError}`;
+  } else if (!balanceCheck.sufficient) {
+    message = balanceCheck.message;
+  } else {
+    message = `The deployment would be created. Estimated total cost: ${cost.totalCost} ${cost.token} for ${cost.duration}.`;
+  }
+
+  return {
+    wouldDeploy,
+    message,
+    validation,
+    cost,
+    costError,
+    policy: { allowed: violations.length === 0, violations },
+    balanceInfo: balanceCheck
+      ? { ...summarizeBalance(balanceCheck, token), sufficient: balanceCheck.sufficient }
+      : null
+  };
+}
+
+/**
+ * Helper function to block an operation that breaks the spending policy
+ * @param operation Operation name
+ * @param violations Policy violations
+ */
+function requirePolicyCompliance(operation: string, violations: PolicyViolation[]): void {
+  try {
+    enforcePolicy(operation, violations);
+  } catch (error) {
+    if (error instanceof PolicyViolationError) {
+      throw new PolicyError(
+        error.message,
+        { data: { type: 'policy_violation', operation: error.operation, violations: error.violations } }
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * A call made with an idempotency key, settled by the error handler if it fails
+ */
+interface IdempotentCall {
+  scope: IdempotencyScope;
+  // Whether the transaction was sent; a failure after that may still have gone through
+  sent: boolean;
+}
+
+/**
+ * Helper function to start a call made with an idempotency key
+ * @param args Operation arguments
+ * @param client Account and network of the call
+ * @param operation Operation name, shared by aliases of the operation
+ * @param fingerprint Hash of the arguments a repeated call must match
+ * @returns The call with its reserved key, or the result of the earlier call with the same key
+ */
+function beginIdempotency(
+  args: Record<string, unknown>,
+  client: OperationClient,
+  operation: string,
+  fingerprint: string
+): { call: IdempotentCall | null; replay: Record<string, unknown> | null } {
+  if (!args.idempotency_key) {
+    return { call: null, replay: null };
+  }
+
+  const scope: IdempotencyScope = { key: args.idempotency_key as string, account: client.account.name, network: client.network };
+  const { state, entry } = beginIdempotentCall(scope, operation, fingerprint);
+  const details = { idempotencyKey: scope.key, operation: entry.operation, startedAt: entry.createdAt };
+
+  switch (state) {
+    case 'new':
+      return { call: { scope, sent: false }, replay: null };
+    case 'completed':
+      logger.info('API', `Returning the stored result of ${operation} with idempotency key ${scope.key}`);
+      return { call: null, replay: entry.result };
+    case 'in_progress':
+      throw new ConflictError(`A ${entry.operation} call with idempotency key "${scope.key}" is still running`, {
+        code: 'IDEMPOTENCY_IN_PROGRESS',
+        retryable: true,
+        hint: 'Wait for it to finish, then repeat the call with the same key to get its result.',
+        data: details
+      });
+    case 'unresolved':
+      throw new ConflictError(
+        entry.error
+          ? `The ${entry.operation} call with idempotency key "${scope.key}" failed after sending its transaction (${entry.error}), so it may have gone through`
+          : `The ${entry.operation} call with idempotency key "${scope.key}" was interrupted by a server restart, so it may have gone through`,
+        {
+          code: 'IDEMPOTENCY_UNRESOLVED',
+          hint: 'Check list_leases and fetch_balance. If nothing happened, repeat the call with a new idempotency key.',
+          data: details
+        }
+      );
+    case 'mismatch':
+      throw new ConflictError(`Idempotency key "${scope.key}" was already used for a different ${entry.operation} request`, {
+        data: details
+      });
+  }
+}
+
+/**
+ * Helper function to store the result of an idempotent call. The operation has succeeded,
+ * so a store failure is only logged; repeated calls then report the call as still running.
+ * @param call Completed call
+ * @param result Result returned to repeated calls
+ */
+function storeIdempotentResult(call: IdempotentCall, result: Record<string, unknown>): void {
+  try {
+    completeIdempotentCall(call.scope, result);
+  } catch (error) {
+    logger.error('API', `Failed to store the result for idempotency key ${call.scope.key}`, error);
+  }
+}
+
+/**
+ * Helper function to release or flag the key of a failed idempotent call. A call that failed
+ * before sending its transaction can be repeated with the same key; one that failed after cannot.
+ * @param call Failed call
+ * @param error Failure
+ */
+function settleFailedIdempotentCall(call: IdempotentCall, error: unknown): void {
+  try {
+    if (call.sent) {
+      markIdempotentCallUnresolved(call.scope, describeError(error));
+    } else {
+      releaseIdempotentCall(call.scope);
+    }
+  } catch (storeError) {
+    logger.error('API', `Failed to update idempotency key ${call.scope.key}`, storeError);
+  }
+}
+
+/**
+ * Helper function to describe active deployments of the same YAML made recently by the account
+ * @param client Account and network of the deployment
+ * @param yamlContent YAML configuration
+ * @param excludeLeaseId Lease of the deployment itself
+ * @returns Warning, or null when there are no such deployments
+ */
+function describeDuplicates(client: OperationClient, yamlContent: string, excludeLeaseId?: string): { message: string; leaseIds: string[] } | null {
+  const minutes = config.deployment.duplicateWarningMinutes;
+  let leaseIds: string[];
+  try {
+    leaseIds = findRecentDuplicates(yamlContent, client.account.name, client.network, minutes * 60 * 1000)
+      .map(record => record.leaseId)
+      .filter(leaseId => leaseId !== excludeLeaseId);
+  } catch (error) {
+    logger.warn('Registry', `Failed to check for duplicate deployments: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  if (leaseIds.length === 0) {
+    return null;
+  }
+  return {
+    message: `The same YAML was deployed by account ${client.account.name} in the last ${minutes} minutes (lease ${leaseIds.join(', ')}). If this is a retry, close the extra lease with close_deployment.`,
+    leaseIds
+  };
+}
+
+/**
+ * Helper function to reserve the estimated cost of a deployment in the spend ledger before
+ * the deployment is made. Call it right after the policy check, with no await in between, so
+ * concurrent requests count each other's spend against the daily and monthly limits.
+ * @param operation Operation name
+ * @param account Account that pays for the deployment
+ * @param cost Estimated cost of the deployment
+ * @param amount Amount to reserve (defaults to the total cost)
+ * @param leaseId Lease ID, when the lease already exists
+ * @returns Reserved spend, released with releaseDeploymentSpend if the operation fails
+ */
+function reserveDeploymentSpend(
+  operation: string,
+  account: Account,
+  cost: CostEstimate,
+  amount: number = cost.totalCost,
+  leaseId?: string
+): SpendEntry {
+  try {
+    return recordSpend({ operation, amount, token: cost.token, account: account.name, leaseId });
+  } catch (error) {
+    throw new InternalError(`Failed to record the deployment spend: ${error instanceof Error ? error.message : String(error)}`, {
+      hint: 'Check that the data directory is writable.',
+      cause: error
+    });
+  }
+}
+
+/**
+ * Helper function to set the lease of a reserved spend once the deployment has been created.
+ * The deployment exists, so a ledger failure is only logged.
+ * @param reservation Reserved spend
+ * @param leaseId Lease ID
+ */
+function assignSpendLease(reservation: SpendEntry, leaseId: string): void {
+  try {
+    setSpendLease(reservation.id, leaseId);
+  } catch (error) {
+    logger.error('Policy', `Failed to record spend for lease ${leaseId}`, error);
+  }
+}
+
+/**
+ * Helper function to release the reserved spend of a failed operation
+ * @param reservation Reserved spend
+ */
+function releaseDeploymentSpend(reservation: SpendEntry): void {
+  try {
+    removeSpend(reservation.id);
+  } catch (error) {
+    logger.error('Policy', `Failed to release spend ${reservation.id} of a failed ${reservation.operation}`, error);
+  }
+}
+
+/**
+ * Helper function to record a deployment in the local registry.
+ * The deployment has already been created, so a registry failure is only logged.
+ * @param operation Operation name
+ * @param client Account and network of the lease
+ * @param leaseId Lease ID
+ * @param yamlContent YAML configuration the lease runs
+ * @param cost Estimated cost of the deployment
+ * @param args Operation arguments (name, labels and conversation_id)
+ * @returns Stored record, or null if it could not be stored
+ */
+function recordInRegistry(
+  operation: string,
+  client: OperationClient,
+  leaseId: string,
+  yamlContent: string,
+  cost: CostEstimate,
+  args: Record<string, unknown>
+): DeploymentRecord | null {
+  try {
+    return recordDeployment({
+      leaseId,
+      operation,
+      network: client.network,
+      account: client.account.name,
+      walletAddress: client.account.address,
+      yamlContent,
+      estimatedCost: {
+        hourlyCost: cost.hourlyCost,
+        totalCost: cost.totalCost,
+        duration: cost.duration,
+        token: cost.token
+      },
+      name: args.name as string | undefined,
+      labels: args.labels as string[] | undefined,
+      conversationId: args.conversation_id as string | undefined
+    });
+  } catch (error) {
+    logger.error('Registry', `Failed to record lease ${leaseId}`, error);
+    return null;
+  }
+}
+
+/**
+ * Helper function to look up the registry record of a lease.
+ * The registry is only advisory, so a registry that cannot be read is logged and ignored.
+ * @param leaseId Lease ID
+ * @returns Stored record, or undefined if there is none or it could not be read
+ */
+function lookupDeploymentRecord(leaseId: string): DeploymentRecord | undefined {
+  try {
+    return getDeploymentRecord(leaseId);
+  } catch (error) {
+    logger.warn('Registry', `Failed to read the record of lease ${leaseId}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Helper function to calculate what an update or extension adds to the cost of a lease: the
+ * difference from the estimate recorded for the lease, or the whole cost if none is recorded
+ * @param leaseId Lease ID
+ * @param cost Estimated cost of the lease after the change
+ * @returns Additional cost
+ */
+function getAdditionalCost(leaseId: string, cost: CostEstimate): number {
+  const previous = lookupDeploymentRecord(leaseId)?.estimatedCost;
+  if (!previous || previous.token !== cost.token) {
+    return cost.totalCost;
+  }
+
+  return Math.max(0, Math.round((cost.totalCost - previous.totalCost) * 1e6) / 1e6);
+}
+
+/**
+ * Helper function to summarize a deployment record for listings
+ * @param record Deployment record
+ * @returns Record without its YAML content
+ */
+function summarizeRecord(record: DeploymentRecord) {
+  const { yamlContent, history, ...summary } = record;
+  return { ...summary, lastOperation: history[history.length - 1]?.operation ?? null };
+}
+
+/**
+ * Helper function to resolve the account and network an operation runs as,
+ * from its "account" and "network" arguments. Operations on a lease default
+ * to the account and network recorded for the deployment; others to the
+ * default account and network. SDK clients are created on first use.
+ * @param args Operation arguments
+ * @returns Account, network and SDK client
+ */
+function resolveClient(args: Record<string, unknown> = {}): OperationClient {
+  const record = args.lease_id ? lookupDeploymentRecord(args.lease_id as string) : undefined;
+
+  try {
+    const account = getAccount((args.account as string) || record?.account || undefined);
+    const networkName = (args.network as string) || record?.network;
+    const network = networkName ? parseNetwork(networkName) : defaultNetwork;
+    return { account, network, sdk: getSdkClient(account, network) };
+  } catch (error) {
+    if (error instanceof UnknownAccountError) {
+      throw new ValidationError(error.message, {
+        code: 'UNKNOWN_ACCOUNT',
+        hint: 'Use one of the accounts returned by list_accounts.',
+        data: { account: error.account || null, accounts: error.knownAccounts }
+      });
+    }
+    if (error instanceof UnknownNetworkError) {
+      throw new ValidationError(error.message, {
+        code: 'UNKNOWN_NETWORK',
+        hint: 'Use one of the supported networks.',
+        data: { network: error.network, networks: error.knownNetworks }
+      });
+    }
+    if (error instanceof NetworkNotServedError) {
+      throw new ValidationError(error.message, {
+        hint: `Run a separate server with SPHERON_NETWORK=${error.network} for ${error.network}, or leave out the network argument.`,
+        data: { network: error.network, servedNetwork: error.servedNetwork }
+      });
+    }
+    throw error;
+  }
+}
+
+// Network of operations that do not name one
+const defaultNetwork: Network = config.network;
+logger.info('Setup', `Default network: ${defaultNetwork}`);
+
+// Load the wallet accounts; SDK clients are created when an account is first used
+try {
+
+  const accounts = loadAccounts();
+  logger.info('Setup', `Accounts: ${[...accounts.values()].map(account => `${account.name} (${account.address})`).join(', ')}`);
+
+  const defaultAccount = getDefaultAccountName();
+  if (defaultAccount) {
+    logger.info('Setup', `Default account: ${defaultAccount}`);
+  } else {
+    logger.warn('Setup', 'No default account: operations must name an account (set defaultAccount to choose one)');
+  }
+
+  // Fail at startup rather than run without the configured spending limits
+  const policy = getPolicy();
+  logger.info('Setup', `Spending policy rules: ${Object.keys(policy).join(', ') || 'none'}`);
+
+  // Likewise for the configured rates and tokens, so no amount uses values the operator did not set
+  logger.info('Setup', `Rate table token: ${getRateTable().token}`);
+  logger.info('Setup', `Tokens: ${[...new Set(getTokens().map(token => token.symbol))].join(', ')}`);
+} catch (error) {
+  logger.error('Setup', 'Failed to initialize Spheron MCP server', error);
+  process.exit(1);
+}
+
+/**
+ * A connected client session with its own MCP server
+ */
+interface Session {
+  id: string;
+  server: Server;
+}
+
+// Connected client sessions, keyed by session ID
+const sessions = new Map<string, Session>();
+
+// Session ID of the single client served over stdio
+const STDIO_SESSION_ID = 'stdio';
+
+// Tool calls in progress, awaited on shutdown
+const activeCalls = new Set<Promise<unknown>>();
+
+/**
+ * Track a tool call so shutdown can wait for it
+ * @param call Tool call in progress
+ * @returns The same call
+ */
+function trackCall<T>(call: Promise<T>): Promise<T> {
+  activeCalls.add(call);
+  call.then(
+    () => activeCalls.delete(call),
+    () => activeCalls.delete(call)
+  );
+  return call;
+}
+
+/**
+ * Wait for tool calls in progress to finish, up to the shutdown grace period
+ */
+async function drainActiveCalls(): Promise<void> {
+  if (activeCalls.size === 0) {
+    return;
+  }
+
+  logger.info('Setup', `Waiting up to ${SHUTDOWN_GRACE_SECONDS}s for ${activeCalls.size} tool call(s) to finish`);
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    Promise.allSettled([...activeCalls]),
+    new Promise(resolve => { timer = setTimeout(resolve, SHUTDOWN_GRACE_SECONDS * 1000); })
+  ]);
+  clearTimeout(timer);
+}
+
+/**
+ * Create an MCP server for one client session, with capabilities for tools,
+ * resources and prompts to interact with Spheron Protocol
+ * @param sessionId Client session ID
+ * @returns Session with its server
+ */
+function createSession(sessionId: string): Session {
+  const server = new Server(
+    {
+      name: "Spheron-MCP",
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true
+        },
+        prompts: {},
+      },
+    }
+  );
+  const session: Session = { id: sessionId, server };
+
+  // Tools: one per operation plus the legacy "spheron_operation" dispatcher
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: listTools()
+    };
+  });
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => trackCall(handleCallTool(request, extra, session)));
+
+  // Prompts for guided workflows
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: listPrompts()
+    };
+  });
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => handleGetPrompt(request));
+
+  // Resources
+  server.setRequestHandler(ListResourcesRequestSchema, () => handleListResources(session));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: RESOURCE_TEMPLATES
+    };
+  });
+  server.setRequestHandler(ReadResourceRequestSchema, (request) => handleReadResource(request, session));
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => handleSubscribe(request, session));
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unsubscribe(request.params.uri, session.id);
+    logger.info('Resources', `Session ${session.id} unsubscribed from ${request.params.uri}`);
+    return {};
+  });
+
+  sessions.set(sessionId, session);
+  return session;
+}
+
+/**
+ * Release the state of a closed client session
+ * @param sessionId Client session ID
+ */
+function closeSession(sessionId: string): void {
+  sessions.delete(sessionId);
+  removeSubscriber(sessionId);
+  const conversations = deleteSessionConversations(sessionId);
+  logger.info('Setup', `Session ${sessionId} closed (${conversations} conversations discarded)`);
+}
+
+/**
+ * Expand a prompt with its arguments
+ * @param request Prompt request
+ * @returns Prompt messages
+ */
+function handleGetPrompt(request: GetPromptRequest) {
+  try {
+    return renderPrompt(request.params.name, request.params.arguments || {});
+  } catch (error) {
+    if (error instanceof PromptArgumentError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Send a resource update notification to every session subscribed to the resource
+ * @param uri Resource URI
+ */
+async function notifyResourceUpdated(uri: string): Promise<void> {
+  for (const subscriber of getSubscribers(uri)) {
+    const session = sessions.get(subscriber);
+    if (!session) {
+      continue;
+    }
+
+    try {
+      await session.server.sendResourceUpdated({ uri });
+    } catch (error) {
+      logger.warn('Resources', `Failed to send update for ${uri} to session ${subscriber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+// Report state changes of subscribed leases
+configureLeaseWatcher({
+  intervalMs: RESOURCE_POLL_SECONDS * 1000,
+  fetchLeaseState: async leaseId => {
+    const snapshot = await getLeaseSnapshot(resolveClient({ lease_id: leaseId }).sdk, leaseId);
+    return `${snapshot.state}:${snapshot.endTime}:${snapshot.acceptedPrice}`;
+  },
+  onChange: notifyResourceUpdated
+});
+
+/**
+ * List concrete resources: the ICL schema, escrow balances and active leases of
+ * the default account on the default network and the session's natural_to_yaml conversations
+ * @param session Client session
+ * @returns Resources
+ */
+async function handleListResources(session: Session): Promise<ListResourcesResult> {
+  let leaseIds: string[];
+  try {
+    const { account, sdk } = resolveClient();
+    leaseIds = (await sdk.leases.getLeaseIds(account.address)).activeLeaseIds;
+  } catch (error) {
+    logger.warn('Resources', `Failed to fetch active leases, listing recorded deployments instead: ${error instanceof Error ? error.message : String(error)}`);
+    leaseIds = listDeploymentRecords({ status: 'active' }).map(record => record.leaseId);
+  }
+
+  return {
+    resources: [
+      {
+        uri: ICL_SCHEMA_URI,
+        name: 'ICL schema',
+        description: 'JSON schema of Spheron ICL deployment YAML',
+        mimeType: 'application/schema+json'
+      },
+      // Balances belong to the default account, so there are none without one
+      ...getTokens()
+        .filter(token => token.network === defaultNetwork && getDefaultAccountName() !== null)
+        .map(token => ({
+          uri: balanceUri(token.symbol),
+          name: `${token.symbol} escrow balance`,
+          mimeType: 'application/json'
+        })),
+      ...leaseIds.map((leaseId: string) => {
+        const record = lookupDeploymentRecord(leaseId);
+        return {
+          uri: leaseUri(leaseId),
+          name: record?.name ? `Lease ${leaseId} (${record.name})` : `Lease ${leaseId}`,
+          mimeType: 'application/json'
+        };
+      }),
+      ...listConversations(session.id).map(conversation => ({
+        uri: conversationUri(conversation.id),
+        name: `Conversation ${conversation.id}`,
+        description: conversation.originalDescription,
+        mimeType: 'application/json'
+      }))
+    ]
+  };
+}
+
+/**
+ * Read a resource
+ * @param request Read request
+ * @param session Client session
+ * @returns Resource contents
+ */
+async function handleReadResource(request: ReadResourceRequest, session: Session): Promise<ReadResourceResult> {
+  const uri = request.params.uri;
+  const ref = parseResourceUri(uri);
+  let contents: unknown;
+
+  switch (ref?.type) {
+    case 'schema':
+      return {
+        contents: [{
+          uri,
+          mimeType: 'application/schema+json',
+          text: JSON.stringify(ICL_SCHEMA, null, 2)
+        }]
+      };
+
+    case 'lease': {
+      const { sdk } = resolveClient({ lease_id: ref.leaseId });
+      const lease: LeaseDetails = toJsonSafe(await sdk.leases.getLeaseDetails(ref.leaseId));
+      const order = toJsonSafe(await sdk.orders.getOrderDetails(ref.leaseId));
+      const record = lookupDeploymentRecord(ref.leaseId);
+      contents = {
+        lease: summarizeLease(lease, order),
+        deployment: record ? summarizeRecord(record) : null
+      };
+      break;
+    }
+
+    case 'conversation': {
+      const conversation = getConversation(ref.conversationId, session.id);
+      if (!conversation) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Conversation not found: ${ref.conversationId}`
+        );
+      }
+      contents = conversation;
+      break;
+    }
+
+    case 'balance': {
+      const { account, network, sdk } = resolveClient();
+      const tokenInfo = resolveToken(ref.token, network);
+      const { formattedBalance } = await fetchFormattedBalance(sdk, tokenInfo);
+      contents = { account: account.name, network, walletAddress: account.address, balance: formattedBalance };
+      break;
+    }
+
+    default:
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource: ${uri}`
+      );
+  }
+
+  return {
+    contents: [{
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(contents, null, 2)
+    }]
+  };
+}
+
+/**
+ * Subscribe a session to resource updates.
+ * Leases are polled for state changes; conversations are updated by natural_to_yaml.
+ * @param request Subscribe request
+ * @param session Client session
+ * @returns Empty result
+ */
+function handleSubscribe(request: SubscribeRequest, session: Session): Record<string, never> {
+  const uri = request.params.uri;
+  if (!parseResourceUri(uri)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown resource: ${uri}`
+    );
+  }
+
+  subscribe(uri, session.id);
+  logger.info('Resources', `Session ${session.id} subscribed to ${uri}`);
+  return {};
+}
+
+/**
+ * Wait for a deployment's services to become ready, sending progress
+ * notifications when the caller asked for them with a progress token
+ * @param sdk SDK client of the account that owns the lease
+ * @param leaseId Lease ID
+ * @param providerProxyUrl Provider proxy URL
+ * @param timeoutSeconds Seconds to wait
+ * @param request Tool call request
+ * @param extra Request context carrying the cancellation signal, through which progress is sent
+ * @returns Final readiness
+ */
+async function waitForDeployment(
+  sdk: SpheronBackend,
+  leaseId: string,
+  providerProxyUrl: string,
+  timeoutSeconds: number,
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<WaitResult> {
+  const progressToken = request.params._meta?.progressToken;
+  let progress = 0;
+
+  logger.info('API', `Waiting up to ${timeoutSeconds}s for lease ${leaseId} to become ready`);
+  return waitForReady(
+    () => sdk.deployment.getDeployment(leaseId, providerProxyUrl),
+    {
+      timeoutMs: timeoutSeconds * 1000,
+      signal: extra.signal,
+      onProgress: async update => {
+        logger.debug('API', `Lease ${leaseId}: ${update.message}`);
+        if (progressToken === undefined) {
+          return;
+        }
+        // Sent in the context of the tool call, so Streamable HTTP delivers it on the call's response stream
+        try {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: ++progress, message: update.message }
+          });
+        } catch (error) {
+          logger.warn('API', `Failed to send progress notification: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Helper function to describe the outcome of waiting for a deployment
+ * @param leaseId Lease ID
+ * @param result Final readiness
+ * @returns Message
+ */
+function describeWaitResult(leaseId: string, result: WaitResult): string {
+  if (result.ready) {
+    return `Deployment ${leaseId} is ready${result.urls.length > 0 ? `: ${result.urls.join(', ')}` : ''}`;
+  }
+  if (result.failed) {
+    const reasons = result.services
+      .filter(service => service.stage === 'failed')
+      .map(service => `${service.name}: ${service.reason}`);
+    return `Deployment ${leaseId} failed to start (${reasons.join('; ')})`;
+  }
+  return `Deployment ${leaseId} was not ready after ${Math.round(result.elapsedMs / 1000)}s${result.lastError ? ` (last error: ${result.lastError})` : ''}`;
+}
+
+/**
+ * Resolve a tool call to an operation and validated arguments.
+ * Calls to "spheron_operation" are dispatched on their "operation" argument;
+ * unknown arguments are tolerated there for backward compatibility.
+ * @param toolName Name of the called tool
+ * @param rawArgs Tool call arguments
+ * @returns Operation name and its arguments
+ */
+function resolveToolCall(
+  toolName: string,
+  rawArgs: Record<string, unknown>
+): { operation: string; args: Record<string, unknown> } {
+  if (toolName === DISPATCHER_TOOL_NAME) {
+    validateToolArguments(buildDispatcherTool(), rawArgs, { allowUnknown: true });
+
+    const { operation, ...args } = rawArgs;
+    const tool = getOperationTool(operation as string)!;
+    validateToolArguments(tool, args, { allowUnknown: true });
+
+    return { operation: tool.name, args };
+  }
+
+  const tool = getOperationTool(toolName);
+  if (!tool) {
+    throw new McpError(
+      ErrorCode.MethodNotFound,
+      `Unknown tool: ${toolName}`
+    );
+  }
+
+  validateToolArguments(tool, rawArgs);
+  return { operation: tool.name, args: rawArgs };
+}
+
+/**
+ * Handle a tool call.
+ * Routes to different operations based on the called tool.
+ * @param request Tool call request
+ * @param extra Request context carrying the cancellation signal
+ * @param session Client session
+ * @returns Tool result
+ */
+async function handleCallTool(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  session: Session
+): Promise<CallToolResult> {
+  const { operation, args } = resolveToolCall(
+    request.params.name,
+    request.params.arguments || {}
+  );
+  const providerProxyUrl = args.provider_proxy_url as string || DEFAULT_PROVIDER_PROXY_URL;
+
+  // Account and network of operations that use a wallet, reported with errors too
+  let client: OperationClient | null = null;
+  // Call made with an idempotency key, until its result is stored
+  let idempotentCall: IdempotentCall | null = null;
+  // Spend reserved against the spending limits, until the operation has succeeded
+  let spendReservation: SpendEntry | null = null;
+
+  try {
+    logger.info('API', `Executing operation: ${operation}`);
+    
+    switch (operation) {
+      case "deploy_compute":
+      case "deploy_yaml": {
+        const yamlContent = await resolveYamlContent(args);
+        const requestedToken = args.token as string | undefined;
+        const walletAddress = args.wallet_address as string;
+        client = resolveClient(args);
+        const { account, network, sdk } = client;
+        const validation = validateYamlConfig(yamlContent);
+
+        if (args.dry_run) {
+          const plan = await planDeployment(client, operation, yamlContent, validation, requestedToken, walletAddress);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                dryRun: true,
+                account: account.name,
+                network,
+                ...plan,
+                duplicateWarning: describeDuplicates(client, yamlContent)
+              }, null, 2)
+            }]
+          };
+        }
+
+        // A repeated call with the same idempotency key returns the original lease instead of deploying again
+        const idempotency = beginIdempotency(args, client, 'deploy', fingerprintCall('deploy', {
+          yaml: hashYamlContent(yamlContent),
+          token: requestedToken || '',
+          walletAddress: walletAddress || ''
+        }));
+        if (idempotency.replay) {
+          const leaseId = String(idempotency.replay.leaseId);
+          const readiness = args.wait
+            ? await waitForDeployment(sdk, leaseId, providerProxyUrl, (args.wait_timeout_seconds as number) || 600, request, extra)
+            : null;
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                ...idempotency.replay,
+                idempotentReplay: true,
+                message: `Deployment ${leaseId} was already created by an earlier call with idempotency key "${args.idempotency_key}"; no new deployment was made.${readiness ? ` ${describeWaitResult(leaseId, readiness)}` : ''}`,
+                ...(readiness ? { readiness } : {})
+              }, null, 2)
+            }]
+          };
+        }
+        idempotentCall = idempotency.call;
+
+        if (!validation.valid) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid YAML configuration: ${validation.errors.join('; ')}`,
+            { errors: validation.errors }
+          );
+        }
+
+        // Check the spending policy, then if user has sufficient balance for deployment
+        const cost = estimateDeploymentCost(yamlContent);
+        const token = resolvePaymentToken(requestedToken, cost);
+        requirePolicyCompliance(operation, evaluateDeployment({ operation, yamlContent, cost }));
+        spendReservation = reserveDeploymentSpend(operation, account, cost);
+        const balanceCheck = await requireSufficientBalance(client, token, walletAddress, cost);
+
+        // Checked before the deployment is recorded, so it does not find itself
+        const duplicateWarning = describeDuplicates(client, yamlContent);
+
+        logger.info('API', `Creating deployment with Spheron SDK as account ${account.name} on ${network}`);
+        if (idempotentCall) {
+          idempotentCall.sent = true;
+        }
+        const deploymentResult = await sdk.deployment.createDeployment(
+          yamlContent,
+          providerProxyUrl
+        );
+
+        // Handle BigInt serialization
+        const safeResult = JSON.parse(JSON.stringify(deploymentResult, (key, value) => 
+          typeof value === 'bigint' ? value.toString() : value
+        ));
+        assignSpendLease(spendReservation, String(safeResult.leaseId));
+        spendReservation = null;
+        const record = recordInRegistry(operation, client, String(safeResult.leaseId), yamlContent, cost, args);
+
+        const deployment = {
+          success: true,
+          leaseId: safeResult.leaseId,
+          account: account.name,
+          network,
+          name: record?.name ?? null,
+          labels: record?.labels ?? [],
+          recorded: record !== null,
+          estimatedCost: {
+            hourlyCost: cost.hourlyCost,
+            totalCost: cost.totalCost,
+            duration: cost.duration,
+            token: cost.token
+          },
+          balanceInfo: summarizeBalance(balanceCheck, token),
+          ...(duplicateWarning ? { duplicateWarning } : {})
+        };
+
+        // The lease exists from here on, so waiting or failing to wait must not release the key
+        if (idempotentCall) {
+          storeIdempotentResult(idempotentCall, {
+            ...deployment,
+            message: `Deployment created successfully with lease ID: ${safeResult.leaseId}`
+          });
+          idempotentCall = null;
+        }
+
+        const readiness = args.wait
+          ? await waitForDeployment(
+            sdk,
+            String(safeResult.leaseId),
+            providerProxyUrl,
+            (args.wait_timeout_seconds as number) || 600,
+            request,
+            extra
+          )
+          : null;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...deployment,
+              message: readiness
+                ? `Deployment created successfully with lease ID: ${safeResult.leaseId}. ${describeWaitResult(String(safeResult.leaseId), readiness)}`
+                : `Deployment created successfully with lease ID: ${safeResult.leaseId}`,
+              ...(readiness ? { readiness } : {})
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "estimate_cost": {
+        let estimate: CostEstimate;
+
+        try {
+          if (args.yaml_content || args.yaml_path) {
+            estimate = estimateYamlCost(await resolveYamlContent(args));
+          } else {
+            estimate = estimateParamsCost({
+              cpu: args.cpu as number,
+              memory: args.memory as string,
+              storage: args.storage as string,
+              gpu: args.gpu_model || args.gpu_units
+                ? { model: args.gpu_model as string, units: args.gpu_units as number }
+                : undefined,
+              duration: args.duration as string,
+              count: args.count as number
+            });
+          }
+        } catch (error) {
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unable to estimate cost: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              estimate,
+              message: `Estimated cost: ${estimate.hourlyCost} ${estimate.token}/hour, ${estimate.totalCost} ${estimate.token} for ${estimate.duration}`,
+              rateTable: getRateTable()
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "fetch_balance": {
+        const token = args.token as string;
+        const walletAddress = args.wallet_address as string;
+        
+        if (!token) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Token symbol is required"
+          );
+        }
+
+        client = resolveClient(args);
+        const { account, network, sdk } = client;
+        const tokenInfo = resolveToken(token, network);
+
+        logger.info('API', `Fetching balance for token: ${tokenInfo.symbol}`);
+        const { formattedBalance, unlocked, locked } = await fetchFormattedBalance(sdk, tokenInfo, walletAddress);
+        const decimals = tokenInfo.decimals;
+
+        // Create a user-friendly response
+        const userFriendlyResponse = {
+          success: true,
+          account: account.name,
+          network,
+          walletAddress: walletAddress || account.address,
+          balance: formattedBalance,
+          message: `Here's your current ${tokenInfo.symbol} balance:\nUnlocked Balance: ${unlocked} ${tokenInfo.symbol}\nLocked Balance: ${locked} ${tokenInfo.symbol}\nToken: ${tokenInfo.symbol} (${decimals} decimals)`
+        };
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(userFriendlyResponse, null, 2)
+          }]
+        };
+      }
+
+      case "deposit_escrow":
+      case "withdraw_escrow": {
+        const isDeposit = operation === "deposit_escrow";
+        client = resolveClient(args);
+        const { account, network, sdk } = client;
+        const tokenInfo = resolveToken(args.token as string, network);
+        const confirmationToken = args.confirmation_token as string | undefined;
+
+        let amount: TokenAmount;
+        try {
+          amount = TokenAmount.fromDecimal(args.amount as string, tokenInfo.decimals);
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+        if (amount.isZero()) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Amount must be greater than zero"
+          );
+        }
+
+        // A repeated confirmed call with the same idempotency key returns the original transaction
+        if (confirmationToken) {
+          const idempotency = beginIdempotency(args, client, operation, fingerprintCall(operation, {
+            token: tokenInfo.symbol,
+            amount: amount.raw.toString()
+          }));
+          if (idempotency.replay) {
+            const current = await fetchFormattedBalance(sdk, tokenInfo);
+
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  ...idempotency.replay,
+                  idempotentReplay: true,
+                  balance: current.formattedBalance,
+                  message: `This ${isDeposit ? 'deposit' : 'withdrawal'} of ${amount} ${tokenInfo.symbol} was already made by an earlier call with idempotency key "${args.idempotency_key}" (transaction ${idempotency.replay.transactionHash ?? 'unknown'}); nothing was sent again.`
+                }, null, 2)
+              }]
+            };
+          }
+          idempotentCall = idempotency.call;
+        }
+
+        // Checked on both steps, so a policy change blocks already issued confirmations
+        requirePolicyCompliance(operation, evaluateEscrowTransfer({
+          operation,
+          token: tokenInfo.symbol,
+          amount: Number(amount.format())
+        }));
+
+        // The account and network are part of the confirmation, so a token cannot move other funds
+        const confirmationParams = { account: account.name, network, token: tokenInfo.symbol, amount: amount.raw.toString() };
+        const before = await fetchFormattedBalance(sdk, tokenInfo);
+
+        if (!isDeposit && before.unlocked.lt(amount)) {
+          throw new InsufficientFundsError(
+            `Insufficient unlocked balance: You have ${before.unlocked} ${tokenInfo.symbol} unlocked, but tried to withdraw ${amount} ${tokenInfo.symbol}.`,
+            { hint: 'Withdraw at most the unlocked balance. Locked funds are released when their leases end or are closed.' }
+          );
+        }
+
+        const projected = isDeposit ? before.unlocked.add(amount) : before.unlocked.sub(amount);
+
+        // Step 1: summarize the transaction and issue a one-time confirmation token
+        if (!confirmationToken) {
+          const confirmation = createConfirmation(operation, confirmationParams);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                confirmed: false,
+                action: isDeposit ? 'deposit' : 'withdraw',
+                account: account.name,
+                network,
+                token: tokenInfo.symbol,
+                amount: amount.toJSON(),
+                currentBalance: before.formattedBalance,
+                projectedUnlockedBalance: projected.toJSON(),
+                confirmationToken: confirmation.token,
+                expiresAt: new Date(confirmation.expiresAt).toISOString(),
+                message: `${isDeposit ? 'Deposit' : 'Withdraw'} ${amount} ${tokenInfo.symbol} ${isDeposit ? 'into' : 'from'} the escrow of account ${account.name} on ${network}? Call ${operation} again with the same account, network, token and amount and confirmation_token "${confirmation.token}" to execute. The token expires at ${new Date(confirmation.expiresAt).toISOString()}.`
+              }, null, 2)
+            }]
+          };
+        }
+
+        // Step 2: execute the confirmed transaction
+        const confirmationResult = consumeConfirmation(confirmationToken, operation, confirmationParams);
+        if (!confirmationResult.valid) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid confirmation: ${confirmationResult.reason}`
+          );
+        }
+
+        // The SDK takes a decimal number and converts it with the token's decimals
+        const transferData = { token: tokenInfo.symbol, amount: Number(amount.format()) };
+
+        logger.info('API', `${isDeposit ? 'Depositing' : 'Withdrawing'} ${amount} ${tokenInfo.symbol} ${isDeposit ? 'into' : 'from'} escrow of account ${account.name}`);
+        if (idempotentCall) {
+          idempotentCall.sent = true;
+        }
+        const receipt = toJsonSafe(isDeposit
+          ? await sdk.escrow.depositBalance(transferData)
+          : await sdk.escrow.withdrawBalance(transferData));
+
+        const transfer = {
+          success: true,
+          confirmed: true,
+          action: isDeposit ? 'deposit' : 'withdraw',
+          account: account.name,
+          network,
+          token: tokenInfo.symbol,
+          amount: amount.toJSON(),
+          transactionHash: receipt?.hash || null
+        };
+        if (idempotentCall) {
+          storeIdempotentResult(idempotentCall, transfer);
+          idempotentCall = null;
+        }
+
+        const after = await fetchFormattedBalance(sdk, tokenInfo);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...transfer,
+              balance: after.formattedBalance,
+              message: `${isDeposit ? 'Deposited' : 'Withdrew'} ${amount} ${tokenInfo.symbol}. Here's your current ${tokenInfo.symbol} balance:\nUnlocked Balance: ${after.unlocked} ${tokenInfo.symbol}\nLocked Balance: ${after.locked} ${tokenInfo.symbol}\nToken: ${tokenInfo.symbol} (${tokenInfo.decimals} decimals)`
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "fetch_deployment_urls": {
+        const leaseId = args.lease_id as string;
+        
+        if (!leaseId) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Lease ID is required"
+          );
+        }
+
+        logger.info('API', `Fetching deployment details for lease ID: ${leaseId}`);
+        client = resolveClient(args);
+        const { account, network, sdk } = client;
+        const deploymentDetails = await sdk.deployment.getDeployment(leaseId, providerProxyUrl);
+
+        // Handle BigInt serialization
+        const safeDetails = JSON.parse(JSON.stringify(deploymentDetails, (key, value) => 
+          typeof value === 'bigint' ? value.toString() : value
+        ));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              account: account.name,
+              network,
+              deploymentDetails: safeDetails
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "wait_for_deployment": {
+        const leaseId = args.lease_id as string;
+        client = resolveClient(args);
+        const { account, network, sdk } = client;
+        const result = await waitForDeployment(
+          sdk,
+          leaseId,
+          providerProxyUrl,
+          (args.wait_timeout_seconds as number) || 600,
+          request,
+          extra
+        );
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: result.ready,
+              leaseId,
+              account: account.name,
+              network,
+              message: describeWaitResult(leaseId, result),
+              ...result
+            }, null, 2)
+          }],
+          ...(result.ready ? {} : { isError: true })
+        };
+      }
+
+      case "fetch_lease_id": {
+        const leaseId = args.lease_id as string;
+        
+        if (!leaseId) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Lease ID is required"
+          );
+        }
+
+        logger.info('API', `Fetching lease details for lease ID: ${leaseId}`);
+        client = resolveClient(args);
+        const { network, sdk } = client;
+        const leaseDetails = await sdk.leases.getLeaseDetails(leaseId);
+
+        // Handle BigInt serialization
+        const safeLeaseDetails = JSON.parse(JSON.stringify(leaseDetails, (key, value) => 
+          typeof value === 'bigint' ? value.toString() : value
+        ));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              network,
+              leaseDetails: safeLeaseDetails
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "list_leases": {
+        const state = (args.state as LeaseStateFilter) || 'active';
+        client = resolveClient(args);
+        const { account, network, sdk } = client;
+        const owner = (args.wallet_address as string) || account.address;
+        const page = (args.page as number) || 1;
+        const pageSize = (args.page_size as number) || 10;
+        const sort = (args.sort as LeaseSortOrder) || 'desc';
+
+        logger.info('API', `Listing ${state} leases for wallet: ${owner}`);
+        const leaseIds = await sdk.leases.getLeaseIds(owner);
+        const selectedIds = state === 'active'
+          ? leaseIds.activeLeaseIds
+          : state === 'terminated'
+            ? leaseIds.terminatedLeaseIds
+            : leaseIds.allLeaseIds;
+
+        // Lease and order details are only fetched for the requested page
+        const { items, pagination } = paginate(sortLeaseIds(selectedIds.map(String), sort), page, pageSize);
+        const summaries = await Promise.all(items.map(async leaseId => {
+          const lease: LeaseDetails = toJsonSafe(await sdk.leases.getLeaseDetails(leaseId));
+          const order = toJsonSafe(await sdk.orders.getOrderDetails(leaseId));
+          return summarizeLease(lease, order);
+        }));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              account: account.name,
+              network,
+              walletAddress: owner,
+              state,
+              sort,
+              counts: {
+                active: leaseIds.activeLeaseIds.length,
+                terminated: leaseIds.terminatedLeaseIds.length,
+                all: leaseIds.allLeaseIds.length
+              },
+              pagination,
+              leases: summaries
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "list_my_deployments": {
+        const status = (args.status as DeploymentStatus | 'all') || 'all';
+        const label = args.label as string | undefined;
+        const account = args.account as string | undefined;
+        const page = (args.page as number) || 1;
+        const pageSize = (args.page_size as number) || 10;
+
+        const records = listDeploymentRecords({ status, label, account });
+        const { items, pagination } = paginate(records, page, pageSize);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              status,
+              label: label ?? null,
+              account: account ?? null,
+              pagination,
+              deployments: items.map(summarizeRecord)
+            }, null, 2)
+          }]
+        };
+      }
 
-// Token requirements for deployment
-const DEFAULT_CST_RATE_PER_HOUR = 3; // Default rate of 3 CST per hour
-const MINIMUM_CST_BALANCE = DEFAULT_CST_RATE_PER_HOUR; // Minimum balance required for deployment (1 hour)
-const RECOMMENDED_CST_BALANCE = DEFAULT_CST_RATE_PER_HOUR * 24; // Recommended balance (24 hours)
-const WARNING_CST_THRESHOLD = DEFAULT_CST_RATE_PER_HOUR * 2; // Warning threshold (2 hours)
+      case "get_deployment_record": {
+        let record: DeploymentRecord | undefined;
 
-/**
- * Helper function to format token amounts based on their decimal places
- * @param amount The raw token amount (can be string, number, or bigint)
- * @param decimals The number of decimal places for the token (default: 6 for CST)
- * @returns Formatted token amount as a string
- */
-function formatTokenAmount(amount: string | number | bigint, decimals: number = 6): string {
-  const amountStr = amount.toString();
-  const amountNum = parseFloat(amountStr) / Math.pow(10, decimals);
-  return amountNum.toString();
-}
+        if (args.lease_id) {
+          record = getDeploymentRecord(args.lease_id as string);
+          if (!record) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `No deployment recorded for lease ID ${args.lease_id}`
+            );
+          }
+        } else {
+          const label = args.label as string;
+          const matches = findDeploymentsByLabel(label);
+          const active = matches.filter(item => item.status === 'active');
 
-/**
- * Helper function to get token decimals based on token symbol
- * @param token The token symbol (e.g., 'CST', 'USDC')
- * @returns The number of decimal places for the token
- */
-function getTokenDecimals(token: string): number {
-  // Token decimal mapping (add more as needed)
-  const tokenDecimals: Record<string, number> = {
-    'CST': 6,
-    'USDC': 6,
-    'ETH': 18,
-    'MATIC': 18
-  };
-  
-  return tokenDecimals[token.toUpperCase()] || 6; // Default to 6 if unknown
-}
+          if (matches.length === 0) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `No deployment recorded with name or label "${label}"`
+            );
+          }
+          // Closed deployments are history; only several live ones make a label ambiguous
+          if (active.length > 1) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Name or label "${label}" matches ${active.length} active deployments; use a lease ID`,
+              { candidates: active.map(summarizeRecord) }
+            );
+          }
+          record = matches[0];
+        }
 
-/**
- * Helper function to check if user has sufficient balance for deployment
- * @param token The token symbol (e.g., 'CST')
- * @param walletAddress Optional wallet address (defaults to authenticated wallet)
- * @returns Object containing balance check result and formatted balance information
- */
-async function checkSufficientBalance(token: string = 'CST', walletAddress?: string): Promise<{
-  sufficient: boolean;
-  balance: any;
-  formattedBalance: any;
-  minimumRequired: number;
-  recommendedBalance: number;
-  warningThreshold: number;
-  message: string;
-}> {
-  logger.info('API', `Checking ${token} balance for deployment`);
-  
-  // Fetch user balance
-  const balance = await spheronSDK.escrow.getUserBalance(token, walletAddress);
-  
-  // Handle BigInt serialization
-  const safeBalance = JSON.parse(JSON.stringify(balance, (key, value) => 
-    typeof value === 'bigint' ? value.toString() : value
-  ));
-  
-  // Get token decimals
-  const decimals = getTokenDecimals(token);
-  
-  // Format balance values
-  const formattedBalance = {
-    lockedBalance: {
-      raw: safeBalance.lockedBalance,
-      formatted: formatTokenAmount(safeBalance.lockedBalance, decimals)
-    },
-    unlockedBalance: {
-      raw: safeBalance.unlockedBalance,
-      formatted: formatTokenAmount(safeBalance.unlockedBalance, decimals)
-    },
-    token: safeBalance.token,
-    decimals: decimals
-  };
-  
-  // Convert to number for comparison
-  const unlockedBalanceNum = parseFloat(formattedBalance.unlockedBalance.formatted);
-  
-  // Check if balance is sufficient
-  const sufficient = unlockedBalanceNum >= MINIMUM_CST_BALANCE;
-  
-  // Create appropriate message
-  let message = '';
-  if (sufficient) {
-    if (unlockedBalanceNum < WARNING_CST_THRESHOLD) {
-      message = `Warning: Your balance of ${unlockedBalanceNum} ${token} is sufficient for deployment but may run out quickly. We recommend at least ${RECOMMENDED_CST_BALANCE} ${token} for 24 hours of operation.`;
-    } else if (unlockedBalanceNum < RECOMMENDED_CST_BALANCE) {
-      message = `Your balance of ${unlockedBalanceNum} ${token} is sufficient for deployment. For longer operation, we recommend at least ${RECOMMENDED_CST_BALANCE} ${token} (24 hours of operation).`;
-    } else {
-      message = `Your balance of ${unlockedBalanceNum} ${token} is sufficient for deployment.`;
-    }
-  } else {
-    message = `Insufficient balance: You have ${unlockedBalanceNum} ${token}, but deployment requires at least ${MINIMUM_CST_BALANCE} ${token}.`;
-  }
-  
-  return {
-    sufficient,
-    balance: safeBalance,
-    formattedBalance,
-    minimumRequired: MINIMUM_CST_BALANCE,
-    recommendedBalance: RECOMMENDED_CST_BALANCE,
-    warningThreshold: WARNING_CST_THRESHOLD,
-    message
-  };
-}
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              deployment: record
+            }, null, 2)
+          }]
+        };
+      }
 
-// Initialize Spheron SDK
-let spheronSDK: SpheronSDK;
+      case "close_deployment": {
+        const leaseId = args.lease_id as string;
+        client = resolveClient(args);
+        const { account, network, sdk } = client;
 
-try {
-  if (!SPHERON_PRIVATE_KEY) {
-    throw new Error("SPHERON_PRIVATE_KEY environment variable is required");
-  }
-  
-  logger.info('Setup', 'Initializing Spheron SDK...');
-  spheronSDK = new SpheronSDK(SPHERON_NETWORK as any, SPHERON_PRIVATE_KEY);
-  logger.info('Setup', 'Spheron SDK initialized successfully');
-} catch (error) {
-  logger.error('Setup', 'Failed to initialize Spheron SDK', error);
-  process.exit(1);
-}
+        const before = await getLeaseSnapshot(sdk, leaseId);
+        if (before.state !== 'active') {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Lease ${leaseId} is not active (state: ${before.state})`
+          );
+        }
 
-/**
- * Create an MCP server with capabilities for tools to interact with Spheron Protocol
- */
-const server = new Server(
-  {
-    name: "Spheron-MCP",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+        logger.info('API', `Closing deployment for lease ID: ${leaseId} as account ${account.name} on ${network}`);
+        const closeResult = toJsonSafe(await sdk.deployment.closeDeployment(leaseId));
+        const after = await getLeaseSnapshot(sdk, leaseId);
 
-/**
- * Handler that lists available tools.
- * Exposes a single "spheron_operation" tool that lets clients interact with Spheron Protocol.
- */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "spheron_operation",
-        description: "Perform operations with Spheron Protocol",
-        inputSchema: {
-          type: "object",
-          properties: {
-            operation: {
-              type: "string",
-              enum: ["deploy_compute", "fetch_balance", "fetch_deployment_urls", "fetch_lease_id", "deploy_yaml", "natural_to_yaml"],
-              description: "The operation to perform"
-            },
-            yaml_content: {
-              type: "string",
-              description: "YAML content for deployment (for deploy operations)"
-            },
-            yaml_path: {
-              type: "string",
-              description: "Path to YAML file (alternative to yaml_content)"
-            },
-            token: {
-              type: "string",
-              description: "Token symbol (e.g., 'CST', 'USDC') for balance operations and deployments (defaults to 'CST')"
-            },
-            wallet_address: {
-              type: "string",
-              description: "Wallet address to check (defaults to authenticated wallet)"
-            },
-            lease_id: {
-              type: "string",
-              description: "ID of the lease/deployment"
-            },
-            provider_proxy_url: {
-              type: "string",
-              description: "URL for the provider proxy server (defaults to environment variable)"
-            },
-            description: {
-              type: "string",
-              description: "Natural language description of compute requirements (for natural_to_yaml operation)"
-            },
-            conversation_id: {
-              type: "string",
-              description: "Conversation ID for multi-turn conversations (for natural_to_yaml operation)"
-            },
-            answer: {
-              type: "string",
-              description: "Answer to a follow-up question (for natural_to_yaml operation)"
-            },
-            existing_yaml: {
-              type: "string",
-              description: "Existing YAML to update (for natural_to_yaml operation)"
-            }
-          },
-          required: ["operation"]
+        try {
+          markDeploymentClosed(leaseId);
+        } catch (error) {
+          logger.error('Registry', `Failed to mark lease ${leaseId} as closed`, error);
         }
-      }
-    ]
-  };
-});
+        await checkLeaseSubscriptions([leaseUri(leaseId)]);
 
-/**
- * Handler for the spheron_operation tool.
- * Routes to different operations based on the operation parameter.
- */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  if (request.params.name !== "spheron_operation") {
-    throw new McpError(
-      ErrorCode.MethodNotFound,
-      `Unknown tool: ${request.params.name}`
-    );
-  }
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              leaseId,
+              message: `Deployment with lease ID ${leaseId} closed`,
+              account: account.name,
+              network,
+              before,
+              after,
+              transaction: closeResult
+            }, null, 2)
+          }]
+        };
+      }
 
-  const args = request.params.arguments || {};
-  const operation = args.operation as string;
-  const providerProxyUrl = args.provider_proxy_url as string || DEFAULT_PROVIDER_PROXY_URL;
+      case "update_deployment":
+      case "extend_deployment": {
+        const leaseId = args.lease_id as string;
+        let yamlContent = await resolveYamlContent(args);
+        let durationChange: { previousDuration: string; duration: string } | undefined;
 
-  try {
-    logger.info('API', `Executing operation: ${operation}`);
-    
-    switch (operation) {
-      case "deploy_compute":
-      case "deploy_yaml": {
-        // Get YAML content either directly or from file
-        let yamlContent: string;
-        
-        if (args.yaml_content) {
-          yamlContent = args.yaml_content as string;
-        } else if (args.yaml_path) {
-          const yamlPath = args.yaml_path as string;
+        if (operation === "extend_deployment") {
           try {
-            yamlContent = await readFile(yamlPath, 'utf8');
+            const extended = setYamlDuration(yamlContent, args.duration as string);
+            yamlContent = extended.yaml;
+            durationChange = {
+              previousDuration: extended.previousDuration,
+              duration: extended.duration
+            };
           } catch (error) {
             throw new McpError(
               ErrorCode.InvalidParams,
-              `Failed to read YAML file: ${error instanceof Error ? error.message : String(error)}`
+              `Failed to extend YAML duration: ${error instanceof Error ? error.message : String(error)}`
             );
           }
-        } else {
+        }
+
+        const validation = validateYamlConfig(yamlContent);
+        if (!validation.valid) {
           throw new McpError(
             ErrorCode.InvalidParams,
-            "Either yaml_content or yaml_path must be provided"
+            `Invalid YAML configuration: ${validation.errors.join('; ')}`,
+            { errors: validation.errors }
           );
         }
 
-        // Check if user has sufficient balance for deployment
-        const token = args.token as string || 'CST';
-        const walletAddress = args.wallet_address as string;
-        const balanceCheck = await checkSufficientBalance(token, walletAddress);
-        
-        if (!balanceCheck.sufficient) {
+        client = resolveClient(args);
+        const { account, network, sdk } = client;
+        const before = await getLeaseSnapshot(sdk, leaseId);
+        if (before.state !== 'active') {
           throw new McpError(
             ErrorCode.InvalidParams,
-            balanceCheck.message
+            `Lease ${leaseId} is not active (state: ${before.state})`
           );
         }
-        
-        // If balance is low but sufficient, log a warning
-        if (parseFloat(balanceCheck.formattedBalance.unlockedBalance.formatted) < WARNING_CST_THRESHOLD) {
-          logger.warn('API', balanceCheck.message);
-        }
 
-        logger.info('API', 'Creating deployment with Spheron SDK');
-        const deploymentResult = await spheronSDK.deployment.createDeployment(
+        // Check the spending policy, then if user has sufficient balance for the updated deployment
+        const walletAddress = args.wallet_address as string;
+        const cost = estimateDeploymentCost(yamlContent);
+        const token = resolvePaymentToken(args.token as string | undefined, cost);
+        const additionalCost = getAdditionalCost(leaseId, cost);
+        requirePolicyCompliance(operation, evaluateDeployment({ operation, yamlContent, cost, additionalCost }));
+        spendReservation = reserveDeploymentSpend(operation, account, cost, additionalCost, leaseId);
+        const balanceCheck = await requireSufficientBalance(client, token, walletAddress, cost, additionalCost);
+
+        logger.info('API', `Updating deployment for lease ID: ${leaseId} as account ${account.name} on ${network}`);
+        const updateResult = toJsonSafe(await sdk.deployment.updateDeployment(
+          leaseId,
           yamlContent,
           providerProxyUrl
-        );
-
-        // Handle BigInt serialization
-        const safeResult = JSON.parse(JSON.stringify(deploymentResult, (key, value) => 
-          typeof value === 'bigint' ? value.toString() : value
         ));
+        spendReservation = null;
+        recordInRegistry(operation, client, leaseId, yamlContent, cost, args);
+        const after = await getLeaseSnapshot(sdk, leaseId);
+        await checkLeaseSubscriptions([leaseUri(leaseId)]);
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               success: true,
-              leaseId: safeResult.leaseId,
-              message: `Deployment created successfully with lease ID: ${safeResult.leaseId}`,
-              balanceInfo: {
-                currentBalance: balanceCheck.formattedBalance.unlockedBalance.formatted,
-                token: token,
-                minimumRequired: MINIMUM_CST_BALANCE,
-                recommendedBalance: RECOMMENDED_CST_BALANCE,
-                warning: parseFloat(balanceCheck.formattedBalance.unlockedBalance.formatted) < WARNING_CST_THRESHOLD ? balanceCheck.message : null
-              }
+              leaseId,
+              message: durationChange
+                ? `Deployment with lease ID ${leaseId} extended from ${durationChange.previousDuration} to ${durationChange.duration}`
+                : `Deployment with lease ID ${leaseId} updated`,
+              account: account.name,
+              network,
+              before,
+              after,
+              update: {
+                orderId: updateResult.orderId,
+                providerAddress: updateResult.providerAddress,
+                acceptedPrice: String(updateResult.acceptedPrice)
+              },
+              ...(durationChange ? { durationChange, yaml: yamlContent } : {}),
+              estimatedCost: {
+                hourlyCost: cost.hourlyCost,
+                totalCost: cost.totalCost,
+                additionalCost,
+                duration: cost.duration,
+                token: cost.token
+              },
+              balanceInfo: summarizeBalance(balanceCheck, token)
             }, null, 2)
           }]
         };
       }
 
-      case "fetch_balance": {
-        const token = args.token as string;
-        const walletAddress = args.wallet_address as string;
-        
-        if (!token) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            "Token symbol is required"
-          );
-        }
-
-        logger.info('API', `Fetching balance for token: ${token}`);
-        const balance = await spheronSDK.escrow.getUserBalance(token, walletAddress);
+      case "list_accounts": {
+        const accounts = listAccounts();
 
-        // Handle BigInt serialization
-        const safeBalance = JSON.parse(JSON.stringify(balance, (key, value) => 
-          typeof value === 'bigint' ? value.toString() : value
-        ));
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              defaultAccount: getDefaultAccountName(),
+              accounts
+            }, null, 2)
+          }]
+        };
+      }
 
-        // Get token decimals
-        const decimals = getTokenDecimals(token);
+      case "diagnostics": {
+        // Report a missing or unknown account as a failed check rather than failing the call
+        let wallet: DiagnosticsContext['wallet'];
+        let sdk: SpheronBackend | null = null;
+        let network: Network = defaultNetwork;
+        try {
+          client = resolveClient(args);
+          const { account } = client;
+          ({ sdk, network } = client);
+          wallet = { account: account.name, address: account.address, source: account.source };
+        } catch (error) {
+          wallet = { error: error instanceof Error ? error.message : String(error) };
+        }
 
-        // Format balance values
-        const formattedBalance = {
-          lockedBalance: {
-            raw: safeBalance.lockedBalance,
-            formatted: formatTokenAmount(safeBalance.lockedBalance, decimals)
+        const conversations = listConversations();
+        const report = await runDiagnostics({
+          version: SERVER_VERSION,
+          network,
+          backend: config.backend.type,
+          wallet,
+          sdk,
+          providerProxyUrl,
+          claudeApiKeyConfigured: Boolean(CLAUDE_API_KEY),
+          conversations: {
+            total: conversations.length,
+            complete: conversations.filter(conversation => conversation.complete).length
           },
-          unlockedBalance: {
-            raw: safeBalance.unlockedBalance,
-            formatted: formatTokenAmount(safeBalance.unlockedBalance, decimals)
-          },
-          token: safeBalance.token,
-          decimals: decimals
-        };
+          errorLimit: (args.error_limit as number) ?? 10,
+          secrets: [
+            CLAUDE_API_KEY,
+            config.transport.authToken,
+            ...[...loadAccounts().values()].map(account => account.privateKey)
+          ].filter((secret): secret is string => Boolean(secret))
+        });
 
-        // Create a user-friendly response
-        const userFriendlyResponse = {
-          success: true,
-          balance: formattedBalance,
-          message: `Here's your current ${token} balance:\nUnlocked Balance: ${formatTokenAmount(safeBalance.unlockedBalance, decimals)} ${token}\nLocked Balance: ${formatTokenAmount(safeBalance.lockedBalance, decimals)} ${token}\nToken: ${token} (${decimals} decimals)`
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: report.status !== 'fail',
+              ...report
+            }, null, 2)
+          }]
         };
+      }
+
+      case "show_config": {
+        const { config: effectiveConfig, file, envOverrides } = getLoadedConfig();
 
         return {
           content: [{
             type: "text",
-            text: JSON.stringify(userFriendlyResponse, null, 2)
+            text: JSON.stringify({
+              success: true,
+              configFile: file,
+              envOverrides,
+              config: redactConfig(effectiveConfig)
+            }, null, 2)
           }]
         };
       }
 
-      case "fetch_deployment_urls": {
-        const leaseId = args.lease_id as string;
-        
-        if (!leaseId) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            "Lease ID is required"
-          );
+      case "validate_yaml": {
+        const yamlContent = await resolveYamlContent(args);
+        const result = validateIclYaml(yamlContent);
+
+        let message: string;
+        if (!result.valid) {
+          message = `Found ${result.errors.length} error(s) and ${result.warnings.length} warning(s). First error: ${formatIclIssue(result.errors[0])}`;
+        } else if (result.warnings.length > 0) {
+          message = `The configuration is valid, with ${result.warnings.length} warning(s)`;
+        } else {
+          message = 'The configuration is valid';
         }
 
-        logger.info('API', `Fetching deployment details for lease ID: ${leaseId}`);
-        const deploymentDetails = await spheronSDK.deployment.getDeployment(leaseId, providerProxyUrl);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              valid: result.valid,
+              errorCount: result.errors.length,
+              warningCount: result.warnings.length,
+              errors: result.errors,
+              warnings: result.warnings,
+              message
+            }, null, 2)
+          }]
+        };
+      }
 
-        // Handle BigInt serialization
-        const safeDetails = JSON.parse(JSON.stringify(deploymentDetails, (key, value) => 
-          typeof value === 'bigint' ? value.toString() : value
-        ));
+      case "list_templates": {
+        const templates = listTemplates(args.category as TemplateCategory | undefined);
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               success: true,
-              deploymentDetails: safeDetails
+              count: templates.length,
+              templates: templates.map(summarizeTemplate)
             }, null, 2)
           }]
         };
       }
 
-      case "fetch_lease_id": {
-        const leaseId = args.lease_id as string;
-        
-        if (!leaseId) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            "Lease ID is required"
-          );
+      case "get_template": {
+        const templateId = args.template_id as string;
+        const template = getTemplate(templateId);
+
+        if (!template) {
+          throw new ValidationError(`Unknown template: ${templateId}`, {
+            hint: 'Use list_templates to see the available templates.',
+            data: { templates: listTemplates().map(item => item.id) }
+          });
         }
 
-        logger.info('API', `Fetching lease details for lease ID: ${leaseId}`);
-        const leaseDetails = await spheronSDK.leases.getLeaseDetails(leaseId);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              template: summarizeTemplate(template),
+              yaml: generateYamlFromParams(createTemplateService(template)),
+              message: `YAML for ${template.name} with the recommended resources. Generated secrets are new on every call.`
+            }, null, 2)
+          }]
+        };
+      }
 
-        // Handle BigInt serialization
-        const safeLeaseDetails = JSON.parse(JSON.stringify(leaseDetails, (key, value) => 
-          typeof value === 'bigint' ? value.toString() : value
-        ));
+      case "compose_to_yaml": {
+        let composeContent = args.compose_content as string;
+        if (!composeContent) {
+          composeContent = await readPathArgument('compose_path', 'compose_content', args.compose_path as string);
+        }
+
+        let conversion;
+        try {
+          conversion = convertCompose(composeContent, {
+            gpuModel: args.gpu_model as string | undefined,
+            duration: args.duration as string | undefined,
+            region: args.region as string | undefined
+          });
+        } catch (error) {
+          if (error instanceof ComposeError) {
+            throw new ValidationError(error.message, {
+              hint: 'Pass a docker-compose file with a services section, where each service has an image.'
+            });
+          }
+          throw error;
+        }
+
+        const { params, unsupported, approximated } = conversion;
+        const yamlContent = generateYamlFromParams(params);
+        const validation = validateYamlConfig(yamlContent);
+        const services = listServices(params).map(service => service.name);
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               success: true,
-              leaseDetails: safeLeaseDetails
+              yaml: yamlContent,
+              valid: validation.valid,
+              errors: validation.errors,
+              warnings: validation.warnings,
+              services,
+              unsupported,
+              approximated,
+              message: `Converted ${services.length} service(s), with ${unsupported.length} unsupported and ${approximated.length} approximated feature(s). Review them before deploying.`
             }, null, 2)
           }]
         };
@@ -496,7 +2375,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Handle multi-turn conversation
         if (conversationId && answer) {
           // Get existing conversation
-          const conversation = getConversation(conversationId);
+          const conversation = getConversation(conversationId, session.id);
           
           if (!conversation) {
             throw new McpError(
@@ -507,7 +2386,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           
           // Process the answer to update parameters
           const combinedDescription = `${conversation.originalDescription} ${answer}`;
-          const { params, missingParams } = await processDescription(combinedDescription, CLAUDE_API_KEY);
+          // An existing YAML already has every value, so it is updated only with what was asked for
+          const { params, missingParams } = await processDescription(combinedDescription, CLAUDE_API_KEY, Boolean(existingYaml));
           
           // Merge with current parameters
           const updatedParams: ExtractedParams = {
@@ -527,6 +2407,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             updatedParams,
             missingParams
           );
+          await notifyResourceUpdated(conversationUri(conversationId));
           
           if (missingParams.length > 0) {
             // Generate follow-up question
@@ -549,7 +2430,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             let yamlContent: string;
             
             if (existingYaml) {
-              yamlContent = updateYamlConfig(existingYaml, updatedParams);
+              yamlContent = updateExistingYaml(existingYaml, updatedParams, args);
             } else {
               yamlContent = generateYamlFromParams(updatedParams);
             }
@@ -559,6 +2440,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             
             // Mark conversation as complete
             completeConversation(conversationId);
+            await notifyResourceUpdated(conversationUri(conversationId));
             
             return {
               content: [{
@@ -569,17 +2451,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   complete: true,
                   yaml: yamlContent,
                   valid: validation.valid,
-                  errors: validation.errors
+                  errors: validation.errors,
+                  warnings: validation.warnings
                 }, null, 2)
               }]
             };
           }
         } else if (description) {
           // Start a new conversation
-          const { params, missingParams } = await processDescription(description, CLAUDE_API_KEY);
+          // An existing YAML already has every value, so it is updated only with what was asked for
+          const { params, missingParams } = await processDescription(description, CLAUDE_API_KEY, Boolean(existingYaml));
           
           // Create conversation state
-          const conversation = createConversation(description, params, missingParams);
+          const conversation = createConversation(description, params, missingParams, session.id);
           
           if (missingParams.length > 0) {
             // Generate follow-up question
@@ -602,7 +2486,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             let yamlContent: string;
             
             if (existingYaml) {
-              yamlContent = updateYamlConfig(existingYaml, params);
+              yamlContent = updateExistingYaml(existingYaml, params, args);
             } else {
               yamlContent = generateYamlFromParams(params);
             }
@@ -622,7 +2506,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   complete: true,
                   yaml: yamlContent,
                   valid: validation.valid,
-                  errors: validation.errors
+                  errors: validation.errors,
+                  warnings: validation.warnings
                 }, null, 2)
               }]
             };
@@ -636,44 +2521,98 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
       
       default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown operation: ${operation}`
-        );
+        throw new ValidationError(`Unknown operation: ${operation}`, {
+          code: 'UNKNOWN_OPERATION',
+          hint: 'Use one of the operations listed by the server.'
+        });
     }
   } catch (error) {
     logger.error('API', 'Operation failed', error);
-    
-    // Ensure error is properly serialized
-    let errorMessage = error instanceof Error ? error.message : String(error);
-    
-    // Check if it's a BigInt serialization error and provide a more helpful message
-    if (errorMessage.includes("BigInt") && errorMessage.includes("serialize")) {
-      errorMessage = "BigInt serialization error in response data. This has been fixed in the latest version.";
+
+    if (idempotentCall) {
+      settleFailedIdempotentCall(idempotentCall, error);
     }
-    
+    if (spendReservation) {
+      releaseDeploymentSpend(spendReservation);
+    }
+
+    // Report a stable code, whether retrying can help and what to do about it
+    const typedError = classifyError(error);
+
     return {
       content: [{
         type: "text",
         text: JSON.stringify({
           success: false,
-          error: errorMessage
+          error: typedError.message,
+          ...typedError.toResponse(),
+          ...(client ? { account: client.account.name, network: client.network } : {}),
+          ...(typedError.data !== undefined ? { details: toJsonSafe(typedError.data) } : {})
         }, null, 2)
       }],
       isError: true
     };
   }
-});
+}
+
+/**
+ * Stop the server gracefully on SIGINT/SIGTERM. A second signal exits at once.
+ * @param stop Stops the transport
+ */
+function registerShutdown(stop: () => Promise<void>): void {
+  let stopping = false;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (stopping) {
+      logger.warn('Setup', `Received ${signal} again, exiting immediately`);
+      process.exit(1);
+    }
+    stopping = true;
+
+    logger.info('Setup', `Received ${signal}, shutting down`);
+    stop().then(
+      () => process.exit(0),
+      (error) => {
+        logger.error('Setup', 'Failed to shut down cleanly', error);
+        process.exit(1);
+      }
+    );
+  };
+
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+}
 
 /**
- * Start the server using stdio transport.
- * This allows the server to communicate via standard input/output streams.
+ * Start the server.
+ * By default it communicates over standard input/output streams with one client;
+ * with SPHERON_TRANSPORT=http it serves several clients over HTTP, one session each.
  */
 async function main() {
   logger.info('Setup', 'Starting Spheron MCP server...');
+
+  if (SPHERON_TRANSPORT === 'http') {
+    const transport = await startHttpTransport({
+      host: config.transport.host,
+      port: config.transport.port,
+      authToken: config.transport.authToken,
+      corsOrigins: config.transport.corsOrigins,
+      createSession,
+      closeSession
+    });
+    registerShutdown(() => transport.shutdown(drainActiveCalls));
+    return;
+  }
+
+  const { server } = createSession(STDIO_SESSION_ID);
   const transport = new StdioServerTransport();
   await server.connect(transport);
   logger.info('Setup', 'Spheron MCP server running on stdio');
+
+  registerShutdown(async () => {
+    await drainActiveCalls();
+    await server.close();
+  });
 }
 
 main().catch((error) => {
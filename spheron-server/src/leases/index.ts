@@ -0,0 +1,29 @@
+/**
+ * Lease listing and summaries
+ */
+
+import {
+  BLOCKS_PER_HOUR,
+  sortLeaseIds,
+  paginate,
+  extractGpuFromSpecs,
+  summarizeLease,
+  LeaseStateFilter,
+  LeaseSortOrder,
+  LeaseDetails,
+  LeaseOrderDetails,
+  LeaseSummary
+} from './lease-summary.js';
+
+export {
+  BLOCKS_PER_HOUR,
+  sortLeaseIds,
+  paginate,
+  extractGpuFromSpecs,
+  summarizeLease,
+  LeaseStateFilter,
+  LeaseSortOrder,
+  LeaseDetails,
+  LeaseOrderDetails,
+  LeaseSummary
+};
@@ -0,0 +1,180 @@
+/**
+ * Lease listing helpers: filtering, sorting, pagination and per-lease summaries
+ */
+
+import { TokenAmount } from '../tokens/index.js';
+
+// Spheron produces 0.5 blocks per second
+export const BLOCKS_PER_HOUR = 1800;
+
+// Accepted lease prices are denominated with 18 decimals per block
+const PRICE_DECIMALS = 18;
+
+export type LeaseStateFilter = 'active' | 'terminated' | 'all';
+export type LeaseSortOrder = 'asc' | 'desc';
+
+/**
+ * On-chain lease details as returned by spheronSDK.leases.getLeaseDetails
+ */
+export interface LeaseDetails {
+  leaseId: string;
+  fizzId: string;
+  acceptedPrice: number | string;
+  providerAddress: string;
+  tenantAddress: string;
+  startTime: number;
+  endTime: number;
+  state: string;
+}
+
+/**
+ * Order details as returned by spheronSDK.orders.getOrderDetails
+ */
+export interface LeaseOrderDetails {
+  name?: string;
+  region?: string;
+  token?: {
+    symbol?: string;
+    decimal?: number;
+  };
+  specs?: {
+    specs?: string;
+  };
+}
+
+/**
+ * Summary of a lease for list responses
+ */
+export interface LeaseSummary {
+  leaseId: string;
+  name: string | null;
+  state: string;
+  provider: string;
+  region: string | null;
+  gpu: {
+    models: string[];
+    units: number | null;
+  } | null;
+  costRate: {
+    perBlock: string;
+    perHour: string;
+    token: string | null;
+  };
+  startTime: string | null;
+  endTime: string | null;
+  timeRemainingSeconds: number | null;
+}
+
+/**
+ * Sort lease IDs. IDs are assigned in the order leases are created, so this
+ * is the order of their start times without fetching each lease's details.
+ * @param leaseIds Lease IDs to sort
+ * @param order Sort order (default: newest first)
+ * @returns Sorted copy of the lease IDs
+ */
+export function sortLeaseIds(leaseIds: string[], order: LeaseSortOrder = 'desc'): string[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...leaseIds].sort((a, b) => {
+    const difference = BigInt(a) - BigInt(b);
+    return (difference > 0n ? 1 : difference < 0n ? -1 : 0) * direction;
+  });
+}
+
+/**
+ * Select a page of items
+ * @param items Items to paginate
+ * @param page Page number (1-based)
+ * @param pageSize Number of items per page
+ * @returns Items on the page and pagination metadata
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): {
+  items: T[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalItems: number;
+    totalPages: number;
+    hasNextPage: boolean;
+  };
+} {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const start = (page - 1) * pageSize;
+
+  return {
+    items: items.slice(start, start + pageSize),
+    pagination: {
+      page,
+      pageSize,
+      totalItems: items.length,
+      totalPages,
+      hasNextPage: page < totalPages
+    }
+  };
+}
+
+/**
+ * Extract GPU models and units from a compressed order spec.
+ * Order specs encode GPUs as "g:{a:[{k:vendor/<vendor>/model/<model>,v:true}],u:<units>}".
+ * @param specs Compressed order spec string
+ * @returns GPU information or null if the spec requests no GPU
+ */
+export function extractGpuFromSpecs(specs: string | undefined): LeaseSummary['gpu'] {
+  if (!specs) {
+    return null;
+  }
+
+  const models = Array.from(specs.matchAll(/vendor\/[\w-]+\/model\/([\w.-]+)/g), match => match[1]);
+  if (models.length === 0) {
+    return null;
+  }
+
+  const unitsMatch = specs.match(/g:\{a:\[[^\]]*\],u:(\d+)\}/);
+
+  return {
+    models: Array.from(new Set(models)),
+    units: unitsMatch ? parseInt(unitsMatch[1], 10) : null
+  };
+}
+
+/**
+ * Convert a unix timestamp in seconds to an ISO string
+ */
+function toIsoTime(seconds: number): string | null {
+  return seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/**
+ * Build a summary of a lease
+ * @param lease Lease details
+ * @param order Order details of the lease (optional)
+ * @param now Current time in milliseconds
+ * @returns Lease summary
+ */
+export function summarizeLease(
+  lease: LeaseDetails,
+  order?: LeaseOrderDetails,
+  now: number = Date.now()
+): LeaseSummary {
+  const perBlock = BigInt(Math.round(Number(lease.acceptedPrice)));
+  const nowSeconds = Math.floor(now / 1000);
+  const remaining = lease.state === 'active' && lease.endTime > 0
+    ? Math.max(0, lease.endTime - nowSeconds)
+    : null;
+
+  return {
+    leaseId: lease.leaseId,
+    name: order?.name || null,
+    state: lease.state,
+    provider: lease.providerAddress,
+    region: order?.region || null,
+    gpu: extractGpuFromSpecs(order?.specs?.specs),
+    costRate: {
+      perBlock: perBlock.toString(),
+      perHour: TokenAmount.fromRaw(perBlock * BigInt(BLOCKS_PER_HOUR), PRICE_DECIMALS).format(),
+      token: order?.token?.symbol || null
+    },
+    startTime: toIsoTime(lease.startTime),
+    endTime: toIsoTime(lease.endTime),
+    timeRemainingSeconds: remaining
+  };
+}
@@ -2,9 +2,11 @@
  * Claude API processor for enhancing template-based extraction with LLM capabilities
  */
 
-import { Anthropic } from '@anthropic-ai/sdk';
+import { Anthropic, APIConnectionError, APIError } from '@anthropic-ai/sdk';
 import { ExtractedParams } from './template-processor.js';
 import logger from '../utils/logger.js';
+import { getConfig } from '../config/index.js';
+import { LlmError } from '../errors/index.js';
 
 // Claude API client
 let anthropic: Anthropic | null = null;
@@ -31,6 +33,26 @@ export function getClaudeClient(apiKey: string): Anthropic {
   return anthropic!;
 }
 
+/**
+ * Map a Claude API failure to a typed error
+ * @param error Error thrown by the Claude client
+ * @returns Typed error; rate limits, overloads and connection failures are retryable
+ */
+export function toLlmError(error: unknown): LlmError {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof APIConnectionError) {
+    return new LlmError(`Claude API unreachable: ${message}`, { retryable: true, hint: 'Try again shortly.', cause: error });
+  }
+  if (error instanceof APIError && (error.status === 401 || error.status === 403)) {
+    return new LlmError(`Claude API rejected the key: ${message}`, { hint: 'Check CLAUDE_API_KEY.', cause: error });
+  }
+  if (error instanceof APIError && error.status !== undefined && (error.status === 429 || error.status >= 500)) {
+    return new LlmError(`Claude API unavailable: ${message}`, { retryable: true, hint: 'Try again shortly.', cause: error });
+  }
+  return new LlmError(`Claude API error: ${message}`, { cause: error });
+}
+
 /**
  * Enhance extracted parameters using Claude API
  * @param description Natural language description
@@ -69,7 +91,7 @@ export async function enhanceWithClaude(
     const enhancedParams = parseClaudeResponse(text, extractedParams);
     return enhancedParams;
   } catch (error) {
-    logger.error('Claude', 'Claude API error', error);
+    logger.error('Claude', 'Claude API error, using the template processor result', toLlmError(error));
     // Return original params if Claude API fails
     return extractedParams;
   }
@@ -97,8 +119,12 @@ Important constraints:
 2. For Jupyter notebook deployments, use image "spheronnetwork/jupyter-notebook:pytorch-2.4.1-cuda-enabled"
 3. Default mode should be "provider"
 4. Default duration should be "2h"
-5. Default region should be "westcoast"
+5. Default region should be "${getConfig().deployment.defaultRegion}"
 6. Default count should be 1
+7. Do not set "amount" unless the description states a price; it is estimated from the requested resources
+8. The top-level parameters describe the main service. Put any further services (e.g. a Redis or Postgres sidecar) in "services", each with its own "name", "image", "ports", "env", "cpu", "memory", "storage", "gpu" and "count"
+9. A port that only other services may reach lists them in "services" and sets "global" to false (e.g. {"port": 6379, "global": false, "services": ["api"]})
+10. Keep the "image", "command", "args", "ports" and "env" already extracted from a template unless the description asks for something else
 
 Return a JSON object with the enhanced parameters. Include all parameters from the original extraction, corrected or enhanced as needed.
 
@@ -119,9 +145,9 @@ function parseClaudeResponse(response: string, originalParams: ExtractedParams):
     if (jsonMatch) {
       const enhancedParams = JSON.parse(jsonMatch[0]) as ExtractedParams;
       
-      // Ensure token is always CST
-      if (enhancedParams.amount === undefined) {
-        enhancedParams.amount = originalParams.amount || 15;
+      // Keep an amount from the original extraction; otherwise it is estimated from resources
+      if (enhancedParams.amount === undefined && originalParams.amount !== undefined) {
+        enhancedParams.amount = originalParams.amount;
       }
       
       return enhancedParams;
@@ -175,7 +201,7 @@ Generate a concise, friendly follow-up question to ask the user for this missing
     const text = 'text' in content ? content.text : '';
     return text.trim();
   } catch (error) {
-    logger.error('Claude', 'Claude API error', error);
+    logger.error('Claude', 'Claude API error, using a generic follow-up question', toLlmError(error));
     // Return a generic question if Claude API fails
     return `I need some additional information to complete your deployment. Could you please provide: ${missingParams.join(', ')}?`;
   }
@@ -6,7 +6,11 @@ import {
   extractFromDescription, 
   identifyMissingParams, 
   mergeWithDefaults,
-  ExtractedParams
+  listServices,
+  DEFAULT_PARAMS,
+  DEFAULT_SERVICE_PARAMS,
+  ExtractedParams,
+  ServiceParams
 } from './template-processor.js';
 import { 
   enhanceWithClaude, 
@@ -17,11 +21,14 @@ import {
  * Process natural language description to extract compute requirements
  * @param description Natural language description
  * @param claudeApiKey Claude API key (optional)
+ * @param partial Return only what the description sets, e.g. to update an existing YAML:
+ *   nothing is reported missing and no defaults or estimated pricing are filled in
  * @returns Extracted parameters and any missing parameters
  */
 export async function processDescription(
   description: string,
-  claudeApiKey?: string
+  claudeApiKey?: string,
+  partial = false
 ): Promise<{
   params: ExtractedParams;
   missingParams: string[];
@@ -38,6 +45,10 @@ export async function processDescription(
     }
   }
   
+  if (partial) {
+    return { params, missingParams: [] };
+  }
+
   // Identify missing parameters
   const missingParams = identifyMissingParams(params);
   
@@ -77,4 +88,4 @@ export async function generateQuestion(
   return `I need some additional information to complete your deployment. Could you please provide: ${missingParams.join(', ')}?`;
 }
 
-export { ExtractedParams };
+export { listServices, DEFAULT_PARAMS, DEFAULT_SERVICE_PARAMS, ExtractedParams, ServiceParams };
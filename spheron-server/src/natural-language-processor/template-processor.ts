@@ -2,54 +2,100 @@
  * Template-based processor for extracting compute requirements from natural language
  */
 
-// Define types for extracted parameters
-export interface ExtractedParams {
+import { estimateHourlyRate } from '../pricing/estimator.js';
+import { getConfig } from '../config/index.js';
+import {
+  getTemplate,
+  matchTemplates,
+  createTemplateService,
+  DEFAULT_TEMPLATE_ID,
+  DeploymentTemplate,
+  LlmModel
+} from '../templates/index.js';
+
+/**
+ * Parameters of one service: its container, compute resources and replicas
+ */
+export interface ServiceParams {
   // Service parameters
+  name?: string;
   image?: string;
   pullPolicy?: 'Always' | 'IfNotPresent' | 'Never';
   ports?: Array<{
     port: number;
     as?: number;
+    // Expose the port publicly; defaults to true unless services are listed
     global?: boolean;
+    // Other services of the deployment that may connect to the port
+    services?: string[];
   }>;
   env?: Record<string, string>;
+  // Entrypoint and arguments, when the image's own are not used
+  command?: string[];
+  args?: string[];
   
   // Compute resources
   cpu?: number;
   memory?: string;
   storage?: string;
+  // Units of 0 deploy the service without a GPU
   gpu?: {
     units?: number;
     model?: string;
   };
   
+  // Hourly rate per replica in CST (pricing amount)
+  amount?: number;
+  count?: number;
+}
+
+// Define types for extracted parameters. The top-level service parameters describe
+// the main service; further services (e.g. a Redis or Postgres sidecar) are listed in services.
+export interface ExtractedParams extends ServiceParams {
   // Deployment parameters
-  name?: string;
   duration?: string;
   mode?: 'provider' | 'fizz';
   region?: string;
-  amount?: number;
-  count?: number;
+  services?: ServiceParams[];
 }
 
-// Default values
+const DEFAULT_TEMPLATE = getTemplate(DEFAULT_TEMPLATE_ID) as DeploymentTemplate;
+
+// Default values from the default template (the default image and region come from the configuration)
 export const DEFAULT_PARAMS: Partial<ExtractedParams> = {
-  image: 'spheronnetwork/jupyter-notebook:pytorch-2.4.1-cuda-enabled',
   pullPolicy: 'IfNotPresent',
-  ports: [
-    { port: 8888, as: 8888, global: true },
-    { port: 3000, as: 3000, global: true }
-  ],
-  env: { 'JUPYTER_TOKEN': 'test' },
-  cpu: 16,
-  memory: '64Gi',
-  storage: '500Gi',
-  gpu: { units: 1, model: 'rtx6000-ada' },
-  name: 'py-cuda',
+  ports: DEFAULT_TEMPLATE.service.ports,
+  env: DEFAULT_TEMPLATE.service.env,
+  cpu: DEFAULT_TEMPLATE.resources.cpu,
+  memory: DEFAULT_TEMPLATE.resources.memory,
+  storage: DEFAULT_TEMPLATE.resources.storage,
+  gpu: DEFAULT_TEMPLATE.resources.gpu || undefined,
+  name: DEFAULT_TEMPLATE.service.name,
   duration: '2h',
   mode: 'provider',
-  region: 'westcoast',
-  amount: 6, // 3 CST per hour for 2 hours
+  // amount is left out: it is estimated from the merged resources
+  count: 1
+};
+
+/**
+ * List the services of a deployment, the main service first, each with its name
+ * @param params Extracted parameters
+ * @returns Service parameters
+ */
+export function listServices(params: ExtractedParams): Array<ServiceParams & { name: string }> {
+  const { services, duration, mode, region, ...main } = params;
+  return [
+    { ...main, name: params.name || 'py-cuda' },
+    ...(services || []).map((service, index) => ({ ...service, name: service.name || `service-${index + 2}` }))
+  ];
+}
+
+// Default values of the services deployed next to the main service
+export const DEFAULT_SERVICE_PARAMS: Partial<ServiceParams> = {
+  pullPolicy: 'IfNotPresent',
+  cpu: 1,
+  memory: '2Gi',
+  storage: '10Gi',
   count: 1
 };
 
@@ -182,64 +228,44 @@ export function extractFromDescription(description: string): ExtractedParams {
     params.region = region;
   }
   
-  // Check for Jupyter notebook
-  if (description.toLowerCase().includes('jupyter') || 
-      description.toLowerCase().includes('notebook')) {
-    params.image = 'spheronnetwork/jupyter-notebook:pytorch-2.4.1-cuda-enabled';
-    params.env = { 'JUPYTER_TOKEN': 'test' };
-    
-    // Add Jupyter port if not already specified
-    params.ports = [
-      { port: 8888, as: 8888, global: true },
-      { port: 3000, as: 3000, global: true }
-    ];
+  // Use the catalog template the description asks for (e.g. "run llama 3 with vllm")
+  const { main, sidecars, model } = matchTemplates(description);
+  if (main) {
+    applyTemplate(params, main, model);
   }
   
-  // Set name based on image or default
-  if (params.image && params.image.includes('jupyter')) {
-    params.name = 'py-cuda';
+  // Add the databases the main service uses (e.g. "with a Redis sidecar"),
+  // reachable only from the main service
+  const mainService = params.name || DEFAULT_PARAMS.name || 'py-cuda';
+  for (const template of sidecars) {
+    const service = createTemplateService(template);
+    service.ports = (service.ports || []).map(port => ({ ...port, global: false, services: [mainService] }));
+    params.services = [...(params.services || []), service];
+    params.env = { ...params.env, ...template.connectionEnv?.(service.env || {}) };
   }
   
-  // Always set token to CST and a reasonable amount based on resources
-  params.amount = calculateAmount(params);
-  
   return params;
 }
 
 /**
- * Calculate token amount based on duration at 3 CST per hour
+ * Set the main service from a template. Resources stated in the description are kept.
  * @param params Extracted parameters
- * @returns Calculated amount
+ * @param template Template of the main service
+ * @param model Model to serve, for LLM templates
  */
-function calculateAmount(params: ExtractedParams): number {
-  // Default to 2 hours if duration is not specified
-  if (!params.duration) {
-    return 6; // 3 CST per hour * 2 hours
-  }
-  
-  // Extract duration value and unit
-  const durationMatch = params.duration.match(/(\d+)([a-z]+)/i);
-  if (!durationMatch) {
-    return 6; // Default to 2 hours if format is invalid
-  }
+function applyTemplate(params: ExtractedParams, template: DeploymentTemplate, model: LlmModel | null): void {
+  const service = createTemplateService(template, model);
   
-  const value = parseInt(durationMatch[1], 10);
-  const unit = durationMatch[2].toLowerCase();
-  
-  // Calculate amount based on duration (3 CST per hour)
-  if (unit === 'h') {
-    // Hours
-    return value * 3;
-  } else if (unit === 'd') {
-    // Days (24 hours per day)
-    return value * 24 * 3;
-  } else if (unit === 'mon') {
-    // Months (30 days per month)
-    return value * 30 * 24 * 3;
-  } else {
-    // Default to 2 hours if unit is unknown
-    return 6;
-  }
+  params.name = service.name;
+  params.image = service.image;
+  params.ports = service.ports;
+  params.env = service.env;
+  params.command = service.command;
+  params.args = service.args;
+  params.cpu = params.cpu ?? service.cpu;
+  params.memory = params.memory ?? service.memory;
+  params.storage = params.storage ?? service.storage;
+  params.gpu = params.gpu ?? service.gpu;
 }
 
 /**
@@ -273,17 +299,37 @@ export function identifyMissingParams(params: ExtractedParams): string[] {
  * @returns Merged parameters
  */
 export function mergeWithDefaults(params: ExtractedParams): ExtractedParams {
-  return {
+  const { defaultImage, defaultRegion } = getConfig().deployment;
+  const merged: ExtractedParams = {
     ...DEFAULT_PARAMS,
+    image: defaultImage,
+    region: defaultRegion,
     ...params,
     // Merge nested objects
     gpu: {
       ...DEFAULT_PARAMS.gpu,
       ...params.gpu
     },
-    env: {
-      ...DEFAULT_PARAMS.env,
-      ...params.env
-    }
+    // The default environment belongs to the default image
+    env: params.image && params.image !== defaultImage
+      ? params.env
+      : { ...DEFAULT_PARAMS.env, ...params.env }
   };
+  
+  // Price the deployment from the resources it actually requests
+  if (merged.amount === undefined) {
+    merged.amount = estimateHourlyRate(merged);
+  }
+  
+  if (params.services) {
+    merged.services = params.services.map(service => {
+      const mergedService: ServiceParams = { ...DEFAULT_SERVICE_PARAMS, ...service };
+      if (mergedService.amount === undefined) {
+        mergedService.amount = estimateHourlyRate(mergedService);
+      }
+      return mergedService;
+    });
+  }
+  
+  return merged;
 }
@@ -0,0 +1,17 @@
+/**
+ * Known Spheron networks
+ */
+
+import {
+  NETWORKS,
+  parseNetwork,
+  UnknownNetworkError,
+  Network
+} from './networks.js';
+
+export {
+  NETWORKS,
+  parseNetwork,
+  UnknownNetworkError,
+  Network
+};
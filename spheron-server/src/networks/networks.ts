@@ -0,0 +1,35 @@
+/**
+ * Spheron networks the server can run operations against
+ */
+
+export const NETWORKS = ['testnet', 'mainnet'] as const;
+
+export type Network = typeof NETWORKS[number];
+
+/**
+ * Raised when a network is not one of the known networks
+ */
+export class UnknownNetworkError extends Error {
+  readonly network: string;
+  readonly knownNetworks: readonly string[];
+
+  constructor(network: string) {
+    super(`Unknown network "${network}". Supported networks: ${NETWORKS.join(', ')}`);
+    this.name = 'UnknownNetworkError';
+    this.network = network;
+    this.knownNetworks = NETWORKS;
+  }
+}
+
+/**
+ * Check that a value is a known network
+ * @param value Network name
+ * @returns Network
+ */
+export function parseNetwork(value: string): Network {
+  const network = NETWORKS.find(item => item === value);
+  if (!network) {
+    throw new UnknownNetworkError(value);
+  }
+  return network;
+}
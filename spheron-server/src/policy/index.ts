@@ -0,0 +1,47 @@
+/**
+ * Spending policy and spend ledger
+ */
+
+import {
+  getPolicy,
+  setPolicy,
+  evaluateReadOnly,
+  evaluateDeployment,
+  evaluateEscrowTransfer,
+  enforcePolicy,
+  PolicyViolationError,
+  SpendingPolicy,
+  PolicyRule,
+  PolicyViolation,
+  DeploymentRequest,
+  EscrowRequest
+} from './policy.js';
+import {
+  getSpendEntries,
+  recordSpend,
+  setSpendLease,
+  removeSpend,
+  getSpendInWindow,
+  SpendEntry
+} from './spend-ledger.js';
+
+export {
+  getPolicy,
+  setPolicy,
+  evaluateReadOnly,
+  evaluateDeployment,
+  evaluateEscrowTransfer,
+  enforcePolicy,
+  PolicyViolationError,
+  SpendingPolicy,
+  PolicyRule,
+  PolicyViolation,
+  DeploymentRequest,
+  EscrowRequest,
+  getSpendEntries,
+  recordSpend,
+  setSpendLease,
+  removeSpend,
+  getSpendInWindow,
+  SpendEntry
+};
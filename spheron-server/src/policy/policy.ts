@@ -0,0 +1,436 @@
+/**
+ * Spending policy: limits enforced before deployments and escrow movements
+ */
+
+import pkg from 'fs-extra';
+const { readFileSync } = pkg;
+import * as yaml from 'js-yaml';
+import { CostEstimate } from '../pricing/index.js';
+import { parseDurationHours } from '../utils/duration.js';
+import logger from '../utils/logger.js';
+import { getConfig } from '../config/index.js';
+import { getSpendInWindow } from './spend-ledger.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+/**
+ * Spending policy loaded from the JSON file named by the policyFile setting.
+ * Every rule is optional; amounts are in the policy token.
+ */
+export interface SpendingPolicy {
+  // Disable every operation that spends or moves tokens
+  readOnly?: boolean;
+  // Token the amount limits are denominated in (default: CST)
+  token?: string;
+  // Maximum estimated total cost of one deployment
+  maxCostPerDeployment?: number;
+  // Maximum spend over a rolling 24 hours, including the request
+  maxDailySpend?: number;
+  // Maximum spend over a rolling 30 days, including the request
+  maxMonthlySpend?: number;
+  // Maximum amount of one escrow deposit or withdrawal
+  maxEscrowTransfer?: number;
+  // GPU models a deployment may request
+  allowedGpuModels?: string[];
+  // Placement regions a deployment may use
+  allowedRegions?: string[];
+  // Maximum deployment duration (e.g. "7d")
+  maxDuration?: string;
+}
+
+export type PolicyRule = Exclude<keyof SpendingPolicy, 'token'>;
+
+/**
+ * A policy rule that blocked a request
+ */
+export interface PolicyViolation {
+  rule: PolicyRule;
+  limit: unknown;
+  actual: unknown;
+  message: string;
+}
+
+/**
+ * Raised when a request breaks one or more policy rules
+ */
+export class PolicyViolationError extends Error {
+  readonly operation: string;
+  readonly violations: PolicyViolation[];
+
+  constructor(operation: string, violations: PolicyViolation[]) {
+    super(`Operation ${operation} blocked by spending policy: ${violations.map(item => item.message).join('; ')}`);
+    this.name = 'PolicyViolationError';
+    this.operation = operation;
+    this.violations = violations;
+  }
+}
+
+/**
+ * A deployment, update or extension to check against the policy
+ */
+export interface DeploymentRequest {
+  operation: string;
+  yamlContent: string;
+  // Null when the cost could not be estimated
+  cost: CostEstimate | null;
+  // Spend the request adds, counted against the daily and monthly limits (defaults to the
+  // total cost). An update or extension adds the difference from the lease's previous cost.
+  additionalCost?: number;
+}
+
+/**
+ * An escrow deposit or withdrawal to check against the policy
+ */
+export interface EscrowRequest {
+  operation: string;
+  token: string;
+  amount: number;
+}
+
+let policy: SpendingPolicy | null = null;
+
+/**
+ * Load the spending policy from the configured JSON policy file.
+ * Unlike other optional files, a policy that fails to load is an error: the
+ * server must not run without the limits it was configured with.
+ * @returns Spending policy (empty when no policy file is configured)
+ */
+export function getPolicy(): SpendingPolicy {
+  if (policy) {
+    return policy;
+  }
+
+  const { policyFile } = getConfig();
+  if (!policyFile) {
+    policy = {};
+    return policy;
+  }
+
+  const loaded = JSON.parse(readFileSync(policyFile, 'utf8'));
+  policy = setPolicy(loaded);
+  logger.info('Policy', `Loaded spending policy from ${policyFile}`);
+
+  return policy;
+}
+
+/**
+ * Replace the active spending policy
+ * @param value Policy
+ * @returns Active policy
+ */
+export function setPolicy(value: unknown): SpendingPolicy {
+  const errors = validatePolicy(value);
+  if (errors.length > 0) {
+    throw new Error(`Invalid spending policy: ${errors.join('; ')}`);
+  }
+
+  policy = value as SpendingPolicy;
+  return policy;
+}
+
+/**
+ * Validate the shape of a policy
+ * @param value Policy
+ * @returns Validation errors
+ */
+function validatePolicy(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['policy must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const candidate = value as Record<string, unknown>;
+  const amountRules = ['maxCostPerDeployment', 'maxDailySpend', 'maxMonthlySpend', 'maxEscrowTransfer'];
+  const listRules = ['allowedGpuModels', 'allowedRegions'];
+  const known = ['readOnly', 'token', 'maxDuration', ...amountRules, ...listRules];
+
+  for (const key of Object.keys(candidate)) {
+    if (!known.includes(key)) {
+      errors.push(`unknown rule "${key}"`);
+    }
+  }
+  if (candidate.readOnly !== undefined && typeof candidate.readOnly !== 'boolean') {
+    errors.push('readOnly must be a boolean');
+  }
+  if (candidate.token !== undefined && typeof candidate.token !== 'string') {
+    errors.push('token must be a string');
+  }
+  for (const rule of amountRules) {
+    const amount = candidate[rule];
+    if (amount !== undefined && (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0)) {
+      errors.push(`${rule} must be a non-negative number`);
+    }
+  }
+  for (const rule of listRules) {
+    const list = candidate[rule];
+    if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+      errors.push(`${rule} must be an array of strings`);
+    }
+  }
+  if (candidate.maxDuration !== undefined
+    && (typeof candidate.maxDuration !== 'string' || parseDurationHours(candidate.maxDuration) === null)) {
+    errors.push('maxDuration must be a duration such as "7d"');
+  }
+
+  return errors;
+}
+
+/**
+ * Check whether the policy allows spending at all
+ * @param operation Operation name
+ * @returns Violations
+ */
+export function evaluateReadOnly(operation: string): PolicyViolation[] {
+  if (!getPolicy().readOnly) {
+    return [];
+  }
+
+  return [{
+    rule: 'readOnly',
+    limit: true,
+    actual: operation,
+    message: `Read-only mode is enabled; ${operation} is not allowed`
+  }];
+}
+
+/**
+ * Check a deployment, update or extension against the policy
+ * @param request Deployment request
+ * @param now Current time in milliseconds
+ * @returns Violations
+ */
+export function evaluateDeployment(request: DeploymentRequest, now: number = Date.now()): PolicyViolation[] {
+  const current = getPolicy();
+  const token = current.token || 'CST';
+  const violations = evaluateReadOnly(request.operation);
+
+  const hasCostRules = current.maxCostPerDeployment !== undefined
+    || current.maxDailySpend !== undefined
+    || current.maxMonthlySpend !== undefined;
+
+  const costRule: PolicyRule = current.maxCostPerDeployment !== undefined ? 'maxCostPerDeployment'
+    : current.maxDailySpend !== undefined ? 'maxDailySpend' : 'maxMonthlySpend';
+  const costLimit = current.maxCostPerDeployment ?? current.maxDailySpend ?? current.maxMonthlySpend;
+
+  if (hasCostRules && !request.cost) {
+    violations.push({
+      rule: costRule,
+      limit: costLimit,
+      actual: null,
+      message: 'The deployment cost could not be estimated, so spending limits cannot be checked'
+    });
+  } else if (hasCostRules && request.cost && request.cost.token.toUpperCase() !== token.toUpperCase()) {
+    // Tokens have no exchange rate, so the limits cannot be applied to other tokens
+    violations.push({
+      rule: costRule,
+      limit: costLimit,
+      actual: request.cost.token,
+      message: `The deployment is priced in ${request.cost.token}, so spending limits in ${token} cannot be checked`
+    });
+  } else if (request.cost) {
+    const cost = request.cost.totalCost;
+
+    if (current.maxCostPerDeployment !== undefined && cost > current.maxCostPerDeployment) {
+      violations.push({
+        rule: 'maxCostPerDeployment',
+        limit: current.maxCostPerDeployment,
+        actual: cost,
+        message: `Estimated cost of ${cost} ${token} exceeds the per-deployment limit of ${current.maxCostPerDeployment} ${token}`
+      });
+    }
+    const added = request.additionalCost ?? cost;
+    violations.push(...evaluateWindow('maxDailySpend', current.maxDailySpend, DAY_MS, 'daily', added, token, now));
+    violations.push(...evaluateWindow('maxMonthlySpend', current.maxMonthlySpend, MONTH_MS, 'monthly', added, token, now));
+  }
+
+  let config: any = null;
+  try {
+    config = yaml.load(request.yamlContent);
+  } catch {
+    // Invalid YAML is reported by YAML validation, not by the policy
+  }
+  if (!config || typeof config !== 'object') {
+    return violations;
+  }
+
+  if (current.allowedGpuModels) {
+    const allowed = current.allowedGpuModels.map(model => model.toLowerCase());
+    const blocked = extractGpuModels(config).filter(model => !allowed.includes(model.toLowerCase()));
+    if (blocked.length > 0) {
+      violations.push({
+        rule: 'allowedGpuModels',
+        limit: current.allowedGpuModels,
+        actual: blocked,
+        message: `GPU model(s) ${blocked.join(', ')} are not allowed; allowed models: ${current.allowedGpuModels.join(', ') || 'none'}`
+      });
+    }
+
+    // Without a model the provider may assign any GPU, so the allow-list could not hold
+    const unnamed = findProfilesWithoutGpuModel(config);
+    if (unnamed.length > 0) {
+      violations.push({
+        rule: 'allowedGpuModels',
+        limit: current.allowedGpuModels,
+        actual: unnamed,
+        message: `Compute profile(s) ${unnamed.join(', ')} request GPUs without naming a model, so any GPU may be assigned; name one of the allowed models: ${current.allowedGpuModels.join(', ') || 'none'}`
+      });
+    }
+  }
+
+  if (current.allowedRegions) {
+    const allowed = current.allowedRegions.map(region => region.toLowerCase());
+    const blocked = extractRegions(config).filter(region => !allowed.includes(region.toLowerCase()));
+    if (blocked.length > 0) {
+      violations.push({
+        rule: 'allowedRegions',
+        limit: current.allowedRegions,
+        actual: blocked,
+        message: `Region(s) ${blocked.join(', ')} are not allowed; allowed regions: ${current.allowedRegions.join(', ') || 'none'}`
+      });
+    }
+  }
+
+  if (current.maxDuration) {
+    const duration = String(config.profiles?.duration ?? '');
+    const hours = parseDurationHours(duration);
+    const limitHours = parseDurationHours(current.maxDuration) as number;
+    if (hours === null || hours > limitHours) {
+      violations.push({
+        rule: 'maxDuration',
+        limit: current.maxDuration,
+        actual: duration || null,
+        message: hours === null
+          ? `Duration "${duration}" cannot be checked against the maximum of ${current.maxDuration}`
+          : `Duration ${duration} exceeds the maximum of ${current.maxDuration}`
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check an escrow deposit or withdrawal against the policy
+ * @param request Escrow request
+ * @returns Violations
+ */
+export function evaluateEscrowTransfer(request: EscrowRequest): PolicyViolation[] {
+  const current = getPolicy();
+  const token = current.token || 'CST';
+  const violations = evaluateReadOnly(request.operation);
+
+  if (current.maxEscrowTransfer === undefined) {
+    return violations;
+  }
+
+  // Tokens have no exchange rate, so the limit cannot be applied to other tokens
+  if (request.token.toUpperCase() !== token.toUpperCase()) {
+    violations.push({
+      rule: 'maxEscrowTransfer',
+      limit: current.maxEscrowTransfer,
+      actual: request.amount,
+      message: `The escrow transfer limit is in ${token}, so transfers of ${request.token} are not allowed`
+    });
+  } else if (request.amount > current.maxEscrowTransfer) {
+    violations.push({
+      rule: 'maxEscrowTransfer',
+      limit: current.maxEscrowTransfer,
+      actual: request.amount,
+      message: `Amount of ${request.amount} ${request.token} exceeds the escrow transfer limit of ${current.maxEscrowTransfer} ${request.token}`
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Throw if there are policy violations
+ * @param operation Operation name
+ * @param violations Violations
+ */
+export function enforcePolicy(operation: string, violations: PolicyViolation[]): void {
+  if (violations.length > 0) {
+    logger.warn('Policy', `Blocked ${operation}: ${violations.map(item => item.rule).join(', ')}`);
+    throw new PolicyViolationError(operation, violations);
+  }
+}
+
+/**
+ * Check spend in a rolling window plus the requested amount against a limit
+ */
+function evaluateWindow(
+  rule: PolicyRule,
+  limit: number | undefined,
+  windowMs: number,
+  label: string,
+  cost: number,
+  token: string,
+  now: number
+): PolicyViolation[] {
+  if (limit === undefined) {
+    return [];
+  }
+
+  const spent = getSpendInWindow(windowMs, token, now);
+  const total = Math.round((spent + cost) * 1e6) / 1e6;
+  if (total <= limit) {
+    return [];
+  }
+
+  return [{
+    rule,
+    limit,
+    actual: total,
+    message: `Spend of ${spent} ${token} plus ${cost} ${token} for this request exceeds the ${label} limit of ${limit} ${token}`
+  }];
+}
+
+/**
+ * Collect the GPU models requested by an ICL configuration
+ */
+function extractGpuModels(config: any): string[] {
+  const models = new Set<string>();
+  for (const profile of Object.values<any>(config.profiles?.compute || {})) {
+    const gpu = profile?.resources?.gpu;
+    if (!gpu || Number(gpu.units ?? 1) <= 0) {
+      continue;
+    }
+    for (const entries of Object.values<any>(gpu.attributes?.vendor || {})) {
+      for (const entry of entries || []) {
+        if (entry?.model) {
+          models.add(String(entry.model));
+        }
+      }
+    }
+  }
+  return [...models];
+}
+
+/**
+ * Find the compute profiles of an ICL configuration that request GPUs without naming a model
+ */
+function findProfilesWithoutGpuModel(config: any): string[] {
+  return Object.entries<any>(config.profiles?.compute || {})
+    .filter(([, profile]) => {
+      const gpu = profile?.resources?.gpu;
+      if (!gpu || Number(gpu.units ?? 1) <= 0) {
+        return false;
+      }
+      return !Object.values<any>(gpu.attributes?.vendor || {})
+        .some(entries => Array.isArray(entries) && entries.some(entry => entry?.model));
+    })
+    .map(([name]) => name);
+}
+
+/**
+ * Collect the placement regions used by an ICL configuration: the region
+ * attribute of each placement, or the placement name when it has none
+ */
+function extractRegions(config: any): string[] {
+  const regions = new Set<string>();
+  for (const [name, placement] of Object.entries<any>(config.profiles?.placement || {})) {
+    regions.add(placement?.attributes?.region ? String(placement.attributes.region) : name);
+  }
+  return [...regions];
+}
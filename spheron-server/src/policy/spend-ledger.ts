@@ -0,0 +1,99 @@
+/**
+ * Persistent ledger of spending made through the server, used for spend caps
+ */
+
+import { randomBytes } from 'crypto';
+import { getDataFile, readJsonFile, writeJsonFile } from '../utils/storage.js';
+
+// Entries older than this are dropped, as no cap looks further back
+const RETENTION_MS = 31 * 24 * 60 * 60 * 1000;
+
+/**
+ * A recorded spend
+ */
+export interface SpendEntry {
+  id: string;
+  timestamp: string;
+  operation: string;
+  amount: number;
+  token: string;
+  account?: string;
+  leaseId?: string;
+}
+
+/**
+ * Get the path of the spend ledger file
+ */
+function getLedgerPath(): string {
+  return getDataFile('spend-ledger.json');
+}
+
+/**
+ * Read all spend entries
+ * @returns Spend entries
+ */
+export function getSpendEntries(): SpendEntry[] {
+  return readJsonFile<SpendEntry[]>(getLedgerPath(), []);
+}
+
+/**
+ * Record a spend
+ * @param entry Spend entry without ID and timestamp
+ * @param now Current time in milliseconds
+ * @returns Recorded entry
+ */
+export function recordSpend(entry: Omit<SpendEntry, 'id' | 'timestamp'>, now: number = Date.now()): SpendEntry {
+  const recorded: SpendEntry = { id: randomBytes(8).toString('hex'), timestamp: new Date(now).toISOString(), ...entry };
+  const entries = getSpendEntries().filter(item => now - Date.parse(item.timestamp) < RETENTION_MS);
+
+  entries.push(recorded);
+  writeJsonFile(getLedgerPath(), entries);
+
+  return recorded;
+}
+
+/**
+ * Set the lease of a recorded spend, once the lease has been created
+ * @param id Spend entry ID
+ * @param leaseId Lease ID
+ */
+export function setSpendLease(id: string, leaseId: string): void {
+  const entries = getSpendEntries();
+  const entry = entries.find(item => item.id === id);
+
+  if (entry) {
+    entry.leaseId = leaseId;
+    writeJsonFile(getLedgerPath(), entries);
+  }
+}
+
+/**
+ * Remove a recorded spend, when the operation it was recorded for failed
+ * @param id Spend entry ID
+ * @returns Whether the entry was found
+ */
+export function removeSpend(id: string): boolean {
+  const entries = getSpendEntries();
+  const remaining = entries.filter(item => item.id !== id);
+
+  if (remaining.length === entries.length) {
+    return false;
+  }
+  writeJsonFile(getLedgerPath(), remaining);
+  return true;
+}
+
+/**
+ * Total amount spent in a rolling window
+ * @param windowMs Window length in milliseconds
+ * @param token Token symbol
+ * @param now Current time in milliseconds
+ * @returns Amount spent in the window
+ */
+export function getSpendInWindow(windowMs: number, token: string, now: number = Date.now()): number {
+  const total = getSpendEntries()
+    .filter(item => item.token === token && now - Date.parse(item.timestamp) < windowMs)
+    .reduce((sum, item) => sum + item.amount, 0);
+
+  return Math.round(total * 1e6) / 1e6;
+}
@@ -0,0 +1,365 @@
+/**
+ * Deployment cost estimator based on the configurable rate table
+ */
+
+import * as yaml from 'js-yaml';
+import { ExtractedParams, listServices } from '../natural-language-processor/template-processor.js';
+import { parseDurationHours } from '../utils/duration.js';
+import { getRateTable, RateTable } from './rate-table.js';
+
+/**
+ * Compute resources of one replica
+ */
+export interface ResourceSpec {
+  cpu?: number;
+  memory?: string;
+  storage?: string[];
+  gpu?: {
+    units?: number;
+    models?: string[];
+  };
+}
+
+/**
+ * Estimated cost of one service
+ */
+export interface ServiceEstimate {
+  service: string;
+  count: number;
+  // Hourly rate of one replica, split by resource
+  breakdown: {
+    gpu: number;
+    cpu: number;
+    memory: number;
+    storage: number;
+  };
+  gpu: {
+    model: string;
+    units: number;
+    ratePerHour: number;
+  } | null;
+  // Hourly rate of one replica
+  ratePerHour: number;
+  // Hourly rate of all replicas
+  hourlyCost: number;
+  // Hourly rate declared in the YAML pricing section, if any
+  declaredRatePerHour: number | null;
+}
+
+/**
+ * Estimated cost of a deployment
+ */
+export interface CostEstimate {
+  // Token of the YAML pricing section, or of the rate table when there is none
+  token: string;
+  duration: string;
+  durationHours: number;
+  services: ServiceEstimate[];
+  // Hourly cost according to the rate table, in the rate table's token
+  estimatedHourlyCost: number;
+  // Hourly cost the deployment will run at: declared pricing where present, else the estimate
+  hourlyCost: number;
+  totalCost: number;
+  warnings: string[];
+}
+
+// Multipliers from size units to GiB
+const SIZE_UNITS_GI: Record<string, number> = {
+  ki: 1 / (1024 * 1024),
+  mi: 1 / 1024,
+  gi: 1,
+  ti: 1024,
+  k: 1e3 / 1024 ** 3,
+  m: 1e6 / 1024 ** 3,
+  g: 1e9 / 1024 ** 3,
+  t: 1e12 / 1024 ** 3
+};
+
+/**
+ * Convert a size string (e.g. "64Gi", "500GB", "1Ti") to GiB
+ * @param size Size string
+ * @returns Size in GiB, or null if the size is invalid
+ */
+export function parseSizeGi(size: string): number | null {
+  const match = String(size).trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]i?)b?$/i);
+  if (!match) {
+    return null;
+  }
+
+  return parseFloat(match[1]) * SIZE_UNITS_GI[match[2].toLowerCase()];
+}
+
+/**
+ * Estimate the hourly rate of one service
+ * @param service Service name
+ * @param resources Compute resources of one replica
+ * @param count Number of replicas
+ * @param declaredRatePerHour Hourly rate declared in the YAML, if any
+ * @param table Rate table
+ * @param warnings Collected warnings
+ * @param token Token of the declared rate
+ * @returns Service estimate
+ */
+function estimateService(
+  service: string,
+  resources: ResourceSpec,
+  count: number,
+  declaredRatePerHour: number | null,
+  table: RateTable,
+  warnings: string[],
+  token: string = table.token
+): ServiceEstimate {
+  let gpu: ServiceEstimate['gpu'] = null;
+
+  if (resources.gpu && (resources.gpu.units ?? 1) > 0) {
+    const units = resources.gpu.units ?? 1;
+    const models = resources.gpu.models && resources.gpu.models.length > 0
+      ? resources.gpu.models
+      : ['unspecified'];
+
+    // Any of the listed models may be assigned, so price the most expensive one
+    let model = models[0];
+    let rate = -1;
+    for (const candidate of models) {
+      const known = table.gpu[candidate.toLowerCase()];
+      if (known === undefined) {
+        warnings.push(`No rate for GPU model "${candidate}" in service "${service}"; using the default rate of ${table.defaultGpu} ${table.token}/hour`);
+      }
+      const candidateRate = known ?? table.defaultGpu;
+      if (candidateRate > rate) {
+        model = candidate;
+        rate = candidateRate;
+      }
+    }
+
+    gpu = { model, units, ratePerHour: rate };
+  }
+
+  const memoryGi = resources.memory ? parseSizeGi(resources.memory) : 0;
+  if (memoryGi === null) {
+    warnings.push(`Invalid memory size "${resources.memory}" in service "${service}"; memory was not priced`);
+  }
+
+  let storageGi = 0;
+  for (const size of resources.storage || []) {
+    const parsed = parseSizeGi(size);
+    if (parsed === null) {
+      warnings.push(`Invalid storage size "${size}" in service "${service}"; this volume was not priced`);
+    } else {
+      storageGi += parsed;
+    }
+  }
+
+  const breakdown = {
+    gpu: roundAmount(gpu ? gpu.ratePerHour * gpu.units : 0),
+    cpu: roundAmount((resources.cpu || 0) * table.cpuCore),
+    memory: roundAmount((memoryGi || 0) * table.memoryGi),
+    storage: roundAmount(storageGi * table.storageGi)
+  };
+  const ratePerHour = roundAmount(breakdown.gpu + breakdown.cpu + breakdown.memory + breakdown.storage);
+
+  // Rates in different tokens cannot be compared
+  if (declaredRatePerHour !== null && token === table.token && declaredRatePerHour < ratePerHour) {
+    warnings.push(`Declared pricing of ${declaredRatePerHour} ${table.token}/hour for service "${service}" is below the estimated ${ratePerHour} ${table.token}/hour; providers may not accept the order`);
+  }
+
+  return {
+    service,
+    count,
+    breakdown,
+    gpu,
+    ratePerHour,
+    hourlyCost: roundAmount(ratePerHour * count),
+    declaredRatePerHour
+  };
+}
+
+/**
+ * Combine service estimates into a deployment estimate
+ */
+function buildEstimate(
+  services: ServiceEstimate[],
+  duration: string,
+  table: RateTable,
+  warnings: string[],
+  token: string = table.token
+): CostEstimate {
+  const durationHours = parseDurationHours(duration);
+  if (durationHours === null || durationHours <= 0) {
+    throw new Error(`Duration "${duration}" is not a valid duration`);
+  }
+
+  const estimatedHourlyCost = roundAmount(services.reduce((sum, item) => sum + item.hourlyCost, 0));
+  const hourlyCost = roundAmount(services.reduce((sum, item) =>
+    sum + (item.declaredRatePerHour ?? item.ratePerHour) * item.count, 0));
+
+  return {
+    token,
+    duration,
+    durationHours,
+    services,
+    estimatedHourlyCost,
+    hourlyCost,
+    totalCost: roundAmount(hourlyCost * durationHours),
+    warnings
+  };
+}
+
+/**
+ * Estimate the cost of a deployment described by extracted parameters
+ * @param params Extracted parameters
+ * @returns Cost estimate, with the main service first
+ */
+export function estimateParamsCost(params: ExtractedParams): CostEstimate {
+  const table = getRateTable();
+  const warnings: string[] = [];
+
+  const services = listServices(params).map(service => estimateService(
+    service.name,
+    {
+      cpu: service.cpu,
+      memory: service.memory,
+      storage: service.storage ? [service.storage] : [],
+      gpu: service.gpu
+        ? { units: service.gpu.units, models: service.gpu.model ? [service.gpu.model] : [] }
+        : undefined
+    },
+    service.count || 1,
+    service.amount ?? null,
+    table,
+    warnings
+  ));
+
+  return buildEstimate(services, params.duration || '2h', table, warnings);
+}
+
+/**
+ * Estimate the hourly rate of one replica of the main service described by extracted parameters.
+ * This is the value used for the YAML pricing amount.
+ * @param params Extracted parameters
+ * @returns Hourly rate in CST
+ */
+export function estimateHourlyRate(params: ExtractedParams): number {
+  const { services } = estimateParamsCost({ ...params, amount: undefined });
+  return services[0].ratePerHour;
+}
+
+/**
+ * Estimate the cost of a YAML configuration
+ * @param yamlConfig YAML configuration
+ * @returns Cost estimate
+ */
+export function estimateYamlCost(yamlConfig: string): CostEstimate {
+  const table = getRateTable();
+  const warnings: string[] = [];
+
+  let config: any;
+  try {
+    config = yaml.load(yamlConfig);
+  } catch (error) {
+    // Give the position only: the parser's message quotes the lines around it
+    if (error instanceof yaml.YAMLException) {
+      throw new Error(`Invalid YAML at line ${error.mark.line + 1}, column ${error.mark.column + 1}: ${error.reason}`);
+    }
+    throw error;
+  }
+  if (!config || !config.profiles) {
+    throw new Error('YAML configuration has no profiles section');
+  }
+
+  const compute = config.profiles.compute || {};
+  const placements = config.profiles.placement || {};
+  const services: ServiceEstimate[] = [];
+  const token = getPricingToken(placements, table);
+
+  for (const [service, regions] of Object.entries<any>(config.deployment || {})) {
+    for (const [region, deployment] of Object.entries<any>(regions || {})) {
+      const profile = deployment?.profile || service;
+      const resources = compute[profile]?.resources;
+      if (!resources) {
+        throw new Error(`No compute profile "${profile}" defined for service "${service}"`);
+      }
+
+      const pricing = placements[region]?.pricing?.[profile];
+      const declared = pricing && Number.isFinite(Number(pricing.amount)) ? Number(pricing.amount) : null;
+      if (declared === null && token !== table.token) {
+        throw new Error(`No pricing amount for service "${service}" in ${region}, and the rate table is in ${table.token}, not ${token}`);
+      }
+
+      services.push(estimateService(
+        service,
+        toResourceSpec(resources),
+        Number(deployment?.count ?? 1),
+        declared,
+        table,
+        warnings,
+        token
+      ));
+    }
+  }
+
+  if (token !== table.token) {
+    warnings.push(`Pricing is in ${token} and the rate table in ${table.token}, so the declared prices were not compared with the estimate`);
+  }
+
+  return buildEstimate(services, String(config.profiles.duration || ''), table, warnings, token);
+}
+
+/**
+ * Get the token of the pricing section of a YAML configuration. A deployment
+ * is paid in one token, so pricing in several tokens is an error.
+ * @param placements Placements of the YAML configuration
+ * @param table Rate table, whose token is used when no pricing names one
+ * @returns Token symbol
+ */
+function getPricingToken(placements: Record<string, any>, table: RateTable): string {
+  const tokens = new Set<string>();
+  for (const placement of Object.values<any>(placements)) {
+    for (const pricing of Object.values<any>(placement?.pricing || {})) {
+      if (pricing?.token) {
+        tokens.add(String(pricing.token));
+      }
+    }
+  }
+
+  if (tokens.size > 1) {
+    throw new Error(`Pricing uses several tokens (${[...tokens].join(', ')}); a deployment is paid in one token`);
+  }
+  return tokens.size === 1 ? [...tokens][0] : table.token;
+}
+
+/**
+ * Convert an ICL resources section to a resource spec
+ */
+function toResourceSpec(resources: any): ResourceSpec {
+  const storage = Array.isArray(resources.storage)
+    ? resources.storage.map((item: any) => String(item.size))
+    : resources.storage?.size ? [String(resources.storage.size)] : [];
+
+  let gpu: ResourceSpec['gpu'];
+  if (resources.gpu) {
+    const models: string[] = [];
+    for (const entries of Object.values<any>(resources.gpu.attributes?.vendor || {})) {
+      for (const entry of entries || []) {
+        if (entry?.model) {
+          models.push(String(entry.model));
+        }
+      }
+    }
+    gpu = { units: Number(resources.gpu.units ?? 1), models };
+  }
+
+  return {
+    cpu: resources.cpu?.units !== undefined ? Number(resources.cpu.units) : undefined,
+    memory: resources.memory?.size !== undefined ? String(resources.memory.size) : undefined,
+    storage,
+    gpu
+  };
+}
+
+/**
+ * Round a token amount to 6 decimal places (CST precision)
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
@@ -0,0 +1,33 @@
+/**
+ * Deployment pricing: rate table and cost estimation
+ */
+
+import {
+  DEFAULT_RATE_TABLE,
+  getRateTable,
+  setRateTable,
+  RateTable
+} from './rate-table.js';
+import {
+  parseSizeGi,
+  estimateParamsCost,
+  estimateHourlyRate,
+  estimateYamlCost,
+  ResourceSpec,
+  ServiceEstimate,
+  CostEstimate
+} from './estimator.js';
+
+export {
+  DEFAULT_RATE_TABLE,
+  getRateTable,
+  setRateTable,
+  RateTable,
+  parseSizeGi,
+  estimateParamsCost,
+  estimateHourlyRate,
+  estimateYamlCost,
+  ResourceSpec,
+  ServiceEstimate,
+  CostEstimate
+};
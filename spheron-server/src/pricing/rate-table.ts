@@ -0,0 +1,158 @@
+/**
+ * Configurable rate table used to estimate deployment costs
+ */
+
+import pkg from 'fs-extra';
+const { readFileSync } = pkg;
+import logger from '../utils/logger.js';
+import { getConfig } from '../config/index.js';
+
+/**
+ * Hourly rates in CST per resource unit
+ */
+export interface RateTable {
+  // Token the rates are denominated in
+  token: string;
+  // Rate per GPU per hour, keyed by GPU model
+  gpu: Record<string, number>;
+  // Rate per GPU per hour for models missing from the table
+  defaultGpu: number;
+  // Rate per CPU core per hour
+  cpuCore: number;
+  // Rate per GiB of memory per hour
+  memoryGi: number;
+  // Rate per GiB of storage per hour
+  storageGi: number;
+}
+
+/**
+ * Default rates. They are not provider quotes: they are set so that the default
+ * Jupyter deployment of sample-compute.yaml (1 rtx6000-ada, 16 cores, 64Gi memory,
+ * 500Gi storage) comes to its 3 CST per hour, with the GPU models ranked relative
+ * to it. Operators should set their own with the pricingFile setting.
+ */
+export const DEFAULT_RATE_TABLE: RateTable = {
+  token: 'CST',
+  gpu: {
+    'h100': 4.5,
+    'a100': 2.8,
+    'l40s': 2.6,
+    'rtx6000-ada': 2.4,
+    'a6000': 1.6,
+    'rtx4090': 1.2,
+    'v100': 1.0,
+    'rtx3090': 0.8,
+    't4': 0.5
+  },
+  defaultGpu: 2.4,
+  cpuCore: 0.02,
+  memoryGi: 0.004,
+  storageGi: 0.000048
+};
+
+let rateTable: RateTable | null = null;
+
+/**
+ * Load the rate table, merging overrides from the JSON file named by
+ * the pricingFile setting over the defaults. A rate table that fails to
+ * load is an error: estimates must use the rates the operator configured.
+ * @returns Rate table
+ */
+export function getRateTable(): RateTable {
+  if (rateTable) {
+    return rateTable;
+  }
+
+  const { pricingFile } = getConfig();
+  if (!pricingFile) {
+    rateTable = DEFAULT_RATE_TABLE;
+    return rateTable;
+  }
+
+  const overrides = JSON.parse(readFileSync(pricingFile, 'utf8'));
+  rateTable = setRateTable(overrides);
+  logger.info('Pricing', `Loaded rate table from ${pricingFile}`);
+
+  return rateTable;
+}
+
+/**
+ * Replace the active rate table
+ * @param overrides Rates to override on top of the defaults
+ * @returns Active rate table
+ */
+export function setRateTable(overrides: unknown): RateTable {
+  const errors = validateOverrides(overrides);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rate table: ${errors.join('; ')}`);
+  }
+
+  rateTable = mergeRateTable(DEFAULT_RATE_TABLE, overrides as Partial<RateTable>);
+  return rateTable;
+}
+
+/**
+ * Validate the shape of rate overrides
+ * @param value Rate overrides
+ * @returns Validation errors
+ */
+function validateOverrides(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['rate table must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const candidate = value as Record<string, unknown>;
+  const rateKeys = ['defaultGpu', 'cpuCore', 'memoryGi', 'storageGi'];
+  const isRate = (rate: unknown) => typeof rate === 'number' && Number.isFinite(rate) && rate >= 0;
+
+  for (const key of Object.keys(candidate)) {
+    if (!['token', 'gpu', ...rateKeys].includes(key)) {
+      errors.push(`unknown key "${key}"`);
+    }
+  }
+  if (candidate.token !== undefined && (typeof candidate.token !== 'string' || candidate.token.length === 0)) {
+    errors.push('token must be a non-empty string');
+  }
+  for (const key of rateKeys) {
+    if (candidate[key] !== undefined && !isRate(candidate[key])) {
+      errors.push(`${key} must be a non-negative number`);
+    }
+  }
+  if (candidate.gpu !== undefined) {
+    if (!candidate.gpu || typeof candidate.gpu !== 'object' || Array.isArray(candidate.gpu)) {
+      errors.push('gpu must be an object of rates keyed by GPU model');
+    } else {
+      for (const [model, rate] of Object.entries(candidate.gpu)) {
+        if (!isRate(rate)) {
+          errors.push(`gpu.${model} must be a non-negative number`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Merge rate overrides over a base rate table
+ */
+function mergeRateTable(base: RateTable, overrides: Partial<RateTable>): RateTable {
+  return {
+    ...base,
+    ...overrides,
+    gpu: normalizeGpuRates({
+      ...base.gpu,
+      ...overrides.gpu
+    })
+  };
+}
+
+/**
+ * Lowercase GPU model keys so lookups are case-insensitive
+ */
+function normalizeGpuRates(rates: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(rates).map(([model, rate]) => [model.toLowerCase(), rate])
+  );
+}
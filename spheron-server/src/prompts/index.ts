@@ -0,0 +1,25 @@
+/**
+ * Curated prompts for guided deployment workflows
+ */
+
+import {
+  PROMPTS,
+  getPromptDefinition,
+  renderPrompt,
+  listPrompts,
+  PromptArgumentError,
+  PromptArgument,
+  PromptMessage,
+  PromptDefinition
+} from './prompt-catalog.js';
+
+export {
+  PROMPTS,
+  getPromptDefinition,
+  renderPrompt,
+  listPrompts,
+  PromptArgumentError,
+  PromptArgument,
+  PromptMessage,
+  PromptDefinition
+};
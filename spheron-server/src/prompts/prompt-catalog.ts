@@ -0,0 +1,215 @@
+/**
+ * Curated prompts for guided deployment workflows
+ */
+
+/**
+ * Prompt argument as advertised through prompts/list
+ */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+  // Pattern the value must match
+  pattern?: RegExp;
+}
+
+/**
+ * Message a prompt expands into
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: 'text';
+    text: string;
+  };
+}
+
+/**
+ * Prompt definition
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render: (args: Record<string, string>) => PromptMessage[];
+}
+
+/**
+ * Raised when a prompt is unknown or its arguments are invalid
+ */
+export class PromptArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptArgumentError';
+  }
+}
+
+const LEASE_ID_PATTERN = /^[0-9]+$/;
+const AMOUNT_PATTERN = /^[0-9]+(\.[0-9]+)?$/;
+const DURATION_PATTERN = /^[0-9]+(min|h|d|mon)$/;
+
+/**
+ * Build a single user message from a request and numbered steps.
+ * Empty steps (for omitted optional arguments) are skipped.
+ */
+function userMessage(request: string, steps: string[]): PromptMessage[] {
+  const numbered = steps
+    .filter(step => step !== '')
+    .map((step, index) => `${index + 1}. ${step}`);
+
+  return [{
+    role: 'user',
+    content: {
+      type: 'text',
+      text: [request, '', 'Steps:', ...numbered].join('\n')
+    }
+  }];
+}
+
+/**
+ * Prompt definitions
+ */
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'deploy-gpu-notebook',
+    description: 'Deploy a Jupyter notebook on a GPU: generate the YAML, check the cost against a budget, deploy and return the URL',
+    arguments: [
+      { name: 'gpu_model', description: 'GPU model (e.g. "rtx4090", "a100")', required: true },
+      { name: 'budget', description: 'Maximum total cost in CST', required: false, pattern: AMOUNT_PATTERN },
+      { name: 'duration', description: 'How long to run the notebook (e.g. "4h"; defaults to 2h)', required: false, pattern: DURATION_PATTERN },
+      { name: 'framework', description: 'Notebook framework (e.g. "pytorch", "tensorflow"; defaults to pytorch)', required: false }
+    ],
+    render: args => {
+      const duration = args.duration || '2h';
+      const framework = args.framework || 'pytorch';
+
+      return userMessage(`Deploy a ${framework} Jupyter notebook on one ${args.gpu_model} GPU for ${duration} on Spheron.`, [
+        `Call natural_to_yaml with the description "Jupyter notebook with ${framework} and CUDA on 1 ${args.gpu_model} GPU for ${duration}". Answer any follow-up questions it asks, using sensible defaults.`,
+        'Call deploy_yaml with the generated YAML and dry_run: true to validate it, estimate its total cost and check my balance.',
+        args.budget
+          ? `If the estimated total cost is above ${args.budget} CST, stop and suggest a cheaper GPU or a shorter duration instead of deploying.`
+          : 'Show me the estimated total cost and ask me to confirm before deploying.',
+        `Call deploy_yaml with the YAML, wait: true, name "${args.gpu_model}-notebook" and the conversation_id from natural_to_yaml.`,
+        'Give me the notebook URL and the Jupyter token from the YAML. If the deployment is not ready, call fetch_deployment_urls with the lease ID and report the service status.'
+      ]);
+    }
+  },
+  {
+    name: 'right-size-deployment',
+    description: 'Review a running deployment and propose a cheaper configuration that still fits its workload',
+    arguments: [
+      { name: 'lease_id', description: 'Lease ID of the deployment', required: true, pattern: LEASE_ID_PATTERN },
+      { name: 'budget', description: 'Target hourly cost in CST', required: false, pattern: AMOUNT_PATTERN }
+    ],
+    render: args => userMessage(`Help me right-size my Spheron deployment with lease ID ${args.lease_id}.`, [
+      `Call get_deployment_record with lease_id ${args.lease_id} to get the YAML it runs. If it is not recorded, ask me for the YAML.`,
+      `Call list_leases or read the resource spheron://leases/${args.lease_id} to get its GPU, cost rate and time remaining.`,
+      'Call estimate_cost with the YAML to see the cost of each resource.',
+      args.budget
+        ? `Propose a configuration (GPU model, GPU count, CPU, memory, storage) that costs at most ${args.budget} CST per hour, and estimate it with estimate_cost.`
+        : 'Propose a cheaper configuration (GPU model, GPU count, CPU, memory, storage) and estimate it with estimate_cost.',
+      'Show the current and proposed cost side by side and explain the trade-offs.',
+      `Only after I confirm, call update_deployment with lease_id ${args.lease_id} and the new YAML.`
+    ])
+  },
+  {
+    name: 'diagnose-failed-lease',
+    description: 'Find out why a deployment is not working: lease state, service status, YAML and balance',
+    arguments: [
+      { name: 'lease_id', description: 'Lease ID of the deployment', required: true, pattern: LEASE_ID_PATTERN }
+    ],
+    render: args => userMessage(`My Spheron deployment with lease ID ${args.lease_id} is not working. Diagnose it.`, [
+      `Call fetch_lease_id with lease_id ${args.lease_id}. If the lease is not active, explain when and why it ended (duration elapsed, closed, or out of balance).`,
+      `Call fetch_deployment_urls with lease_id ${args.lease_id} and check each service's ready replicas and container statuses (image pull errors, crash loops, non-zero exit codes).`,
+      `Call get_deployment_record with lease_id ${args.lease_id} and check the YAML: image name and tag, exposed ports, environment variables and resources.`,
+      'Call fetch_balance for CST to check that the escrow balance covers the lease.',
+      'Summarize the most likely cause and the fix. If the fix needs a new YAML, show it and offer to apply it with update_deployment; do not apply it without my confirmation.'
+    ])
+  },
+  {
+    name: 'close-idle-leases',
+    description: 'Find active leases that are not serving anything and close them after confirmation',
+    arguments: [
+      { name: 'keep_label', description: 'Never close deployments with this name or label', required: false },
+      { name: 'older_than', description: 'Only consider leases that started longer ago than this (e.g. "1d")', required: false, pattern: DURATION_PATTERN }
+    ],
+    render: args => userMessage('Find and close my idle Spheron leases.', [
+      'Call list_leases with state "active" (page through all results) and list_my_deployments with status "active" to match leases to their names and labels.',
+      args.older_than ? `Only consider leases that started more than ${args.older_than} ago.` : '',
+      args.keep_label ? `Skip deployments with the name or label "${args.keep_label}".` : '',
+      'For each remaining lease, call fetch_deployment_urls. Treat a lease as idle when none of its services has ready replicas or it exposes no URLs.',
+      'Show me a table of the idle leases with their name, GPU, hourly cost and time remaining, and the total hourly cost they add up to.',
+      'Only after I confirm, call close_deployment for each lease I approve, and report the result of each.'
+    ])
+  }
+];
+
+/**
+ * Get a prompt definition by name
+ * @param name Prompt name
+ * @returns Prompt definition or undefined if not found
+ */
+export function getPromptDefinition(name: string): PromptDefinition | undefined {
+  return PROMPTS.find(prompt => prompt.name === name);
+}
+
+/**
+ * Expand a prompt into messages
+ * @param name Prompt name
+ * @param args Prompt arguments
+ * @returns Prompt description and messages
+ */
+export function renderPrompt(name: string, args: Record<string, string> = {}): {
+  description: string;
+  messages: PromptMessage[];
+} {
+  const prompt = getPromptDefinition(name);
+  if (!prompt) {
+    throw new PromptArgumentError(`Unknown prompt: ${name}. Available prompts: ${PROMPTS.map(item => item.name).join(', ')}`);
+  }
+
+  const issues: string[] = [];
+  const known = prompt.arguments.map(argument => argument.name);
+  for (const key of Object.keys(args)) {
+    if (!known.includes(key)) {
+      issues.push(`unknown argument "${key}"`);
+    }
+  }
+
+  const values: Record<string, string> = {};
+  for (const argument of prompt.arguments) {
+    const value = args[argument.name]?.trim();
+    if (!value) {
+      if (argument.required) {
+        issues.push(`"${argument.name}" is required`);
+      }
+      continue;
+    }
+    if (argument.pattern && !argument.pattern.test(value)) {
+      issues.push(`"${argument.name}" is invalid: ${argument.description}`);
+      continue;
+    }
+    values[argument.name] = value;
+  }
+
+  if (issues.length > 0) {
+    throw new PromptArgumentError(`Invalid arguments for prompt ${name}: ${issues.join('; ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: prompt.render(values)
+  };
+}
+
+/**
+ * List prompts as advertised through prompts/list
+ * @returns Prompts without their render functions and patterns
+ */
+export function listPrompts(): { name: string; description: string; arguments: { name: string; description: string; required: boolean }[] }[] {
+  return PROMPTS.map(prompt => ({
+    name: prompt.name,
+    description: prompt.description,
+    arguments: prompt.arguments.map(({ name, description, required }) => ({ name, description, required }))
+  }));
+}
@@ -0,0 +1,202 @@
+/**
+ * JSON schema of the Spheron Infrastructure Composition Language (ICL) YAML
+ */
+
+import { JsonSchema } from '../tools/definitions.js';
+
+const SIZE: JsonSchema = {
+  type: 'string',
+  pattern: '^[0-9]+(\\.[0-9]+)?\\s*([KMGT]i?)B?$',
+  description: 'Size with unit (e.g. "64Gi", "500GB")'
+};
+
+const EXPOSE: JsonSchema = {
+  type: 'object',
+  required: ['port'],
+  properties: {
+    port: { type: 'integer', minimum: 1, maximum: 65535, description: 'Container port' },
+    as: { type: 'integer', minimum: 1, maximum: 65535, description: 'Port the container port is exposed as' },
+    proto: { type: 'string', enum: ['TCP', 'UDP', 'tcp', 'udp'] },
+    to: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          global: { type: 'boolean', description: 'Expose the port publicly' },
+          service: { type: 'string', description: 'Expose the port to another service of the deployment' }
+        }
+      }
+    }
+  }
+};
+
+const SERVICE: JsonSchema = {
+  type: 'object',
+  required: ['image'],
+  properties: {
+    image: { type: 'string', description: 'Container image (e.g. "nginx:latest")' },
+    pull_policy: { type: 'string', enum: ['IfNotPresent', 'Always', 'Never'] },
+    command: { type: 'array', items: { type: 'string' } },
+    args: { type: 'array', items: { type: 'string' } },
+    env: { type: 'array', items: { type: 'string', pattern: '^[^=]+=' }, description: 'Environment variables as "NAME=value"' },
+    expose: { type: 'array', items: EXPOSE },
+    credentials: {
+      type: 'object',
+      properties: {
+        host: { type: 'string' },
+        username: { type: 'string' },
+        password: { type: 'string' }
+      }
+    }
+  }
+};
+
+const GPU: JsonSchema = {
+  type: 'object',
+  required: ['units'],
+  properties: {
+    units: { type: 'integer', minimum: 0 },
+    attributes: {
+      type: 'object',
+      properties: {
+        vendor: {
+          type: 'object',
+          description: 'GPU models keyed by vendor (e.g. "nvidia")',
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['model'],
+              properties: {
+                model: { type: 'string', description: 'GPU model (e.g. "rtx4090")' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+const COMPUTE_PROFILE: JsonSchema = {
+  type: 'object',
+  required: ['resources'],
+  properties: {
+    resources: {
+      type: 'object',
+      required: ['cpu', 'memory', 'storage'],
+      properties: {
+        cpu: {
+          type: 'object',
+          required: ['units'],
+          properties: { units: { type: 'number', exclusiveMinimum: 0 } }
+        },
+        memory: {
+          type: 'object',
+          required: ['size'],
+          properties: { size: SIZE }
+        },
+        storage: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['size'],
+            properties: {
+              size: SIZE,
+              name: { type: 'string' },
+              attributes: { type: 'object' }
+            }
+          }
+        },
+        gpu: GPU
+      }
+    }
+  }
+};
+
+const PLACEMENT: JsonSchema = {
+  type: 'object',
+  required: ['pricing'],
+  properties: {
+    attributes: {
+      type: 'object',
+      properties: {
+        region: { type: 'string', description: 'Provider region (e.g. "us-west")' }
+      }
+    },
+    pricing: {
+      type: 'object',
+      description: 'Pricing keyed by compute profile',
+      additionalProperties: {
+        type: 'object',
+        required: ['token', 'amount'],
+        properties: {
+          token: { type: 'string', enum: ['CST'] },
+          amount: { type: 'number', minimum: 0, description: 'Hourly rate per replica' }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * JSON schema of an ICL deployment configuration
+ */
+export const ICL_SCHEMA: JsonSchema & { $schema: string; $id: string; title: string } = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'spheron://schema/icl',
+  title: 'Spheron ICL deployment configuration',
+  type: 'object',
+  required: ['version', 'services', 'profiles', 'deployment'],
+  properties: {
+    version: { type: 'string', enum: ['1.0'] },
+    services: {
+      type: 'object',
+      minProperties: 1,
+      description: 'Services keyed by name',
+      additionalProperties: SERVICE
+    },
+    profiles: {
+      type: 'object',
+      required: ['duration', 'mode', 'compute', 'placement'],
+      properties: {
+        name: { type: 'string' },
+        duration: {
+          type: 'string',
+          pattern: '^[0-9]+(min|h|d|mon)$',
+          description: 'Lease duration (e.g. "2h", "3d", "1mon")'
+        },
+        mode: { type: 'string', enum: ['provider', 'fizz'] },
+        tier: { type: 'array', items: { type: 'string' } },
+        compute: {
+          type: 'object',
+          minProperties: 1,
+          description: 'Compute profiles keyed by name',
+          additionalProperties: COMPUTE_PROFILE
+        },
+        placement: {
+          type: 'object',
+          minProperties: 1,
+          description: 'Placements keyed by name',
+          additionalProperties: PLACEMENT
+        }
+      }
+    },
+    deployment: {
+      type: 'object',
+      minProperties: 1,
+      description: 'Placement of each service: service name -> placement name -> profile and count',
+      additionalProperties: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          required: ['profile', 'count'],
+          properties: {
+            profile: { type: 'string' },
+            count: { type: 'integer', minimum: 1 }
+          }
+        }
+      }
+    }
+  }
+};
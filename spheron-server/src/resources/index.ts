@@ -0,0 +1,47 @@
+/**
+ * MCP resources: URIs, the ICL schema and subscriptions
+ */
+
+import {
+  ICL_SCHEMA_URI,
+  RESOURCE_TEMPLATES,
+  leaseUri,
+  conversationUri,
+  balanceUri,
+  parseResourceUri,
+  ResourceRef,
+  ResourceTemplate
+} from './resource-uris.js';
+import { ICL_SCHEMA } from './icl-schema.js';
+import {
+  configureLeaseWatcher,
+  subscribe,
+  unsubscribe,
+  removeSubscriber,
+  isSubscribed,
+  getSubscribers,
+  getSubscriptions,
+  checkLeaseSubscriptions,
+  LeaseWatcherOptions
+} from './subscriptions.js';
+
+export {
+  ICL_SCHEMA_URI,
+  RESOURCE_TEMPLATES,
+  leaseUri,
+  conversationUri,
+  balanceUri,
+  parseResourceUri,
+  ResourceRef,
+  ResourceTemplate,
+  ICL_SCHEMA,
+  configureLeaseWatcher,
+  subscribe,
+  unsubscribe,
+  removeSubscriber,
+  isSubscribed,
+  getSubscribers,
+  getSubscriptions,
+  checkLeaseSubscriptions,
+  LeaseWatcherOptions
+};
@@ -0,0 +1,101 @@
+/**
+ * URIs of the resources exposed by the server
+ */
+
+/**
+ * Resource a URI refers to
+ */
+export type ResourceRef =
+  | { type: 'lease'; leaseId: string }
+  | { type: 'conversation'; conversationId: string }
+  | { type: 'balance'; token: string }
+  | { type: 'schema'; name: 'icl' };
+
+/**
+ * Resource template as advertised through resources/templates/list
+ */
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export const ICL_SCHEMA_URI = 'spheron://schema/icl';
+
+/**
+ * Templates of the parameterized resources
+ */
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'spheron://leases/{leaseId}',
+    name: 'Lease',
+    description: 'On-chain state of a lease with its provider, GPU, cost rate and time remaining. Subscribe to be notified when its state changes.',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'spheron://conversations/{conversationId}',
+    name: 'natural_to_yaml conversation',
+    description: 'Description, extracted parameters, missing parameters and question history of a natural_to_yaml conversation',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'spheron://balance/{token}',
+    name: 'Escrow balance',
+    description: 'Locked and unlocked escrow balance of the default account for a token',
+    mimeType: 'application/json'
+  }
+];
+
+/**
+ * Build the URI of a lease
+ * @param leaseId Lease ID
+ * @returns Resource URI
+ */
+export function leaseUri(leaseId: string): string {
+  return `spheron://leases/${leaseId}`;
+}
+
+/**
+ * Build the URI of a conversation
+ * @param conversationId Conversation ID
+ * @returns Resource URI
+ */
+export function conversationUri(conversationId: string): string {
+  return `spheron://conversations/${encodeURIComponent(conversationId)}`;
+}
+
+/**
+ * Build the URI of an escrow balance
+ * @param token Token symbol
+ * @returns Resource URI
+ */
+export function balanceUri(token: string): string {
+  return `spheron://balance/${encodeURIComponent(token)}`;
+}
+
+/**
+ * Parse a resource URI
+ * @param uri Resource URI
+ * @returns Resource reference, or null if the URI is not a known resource
+ */
+export function parseResourceUri(uri: string): ResourceRef | null {
+  if (uri === ICL_SCHEMA_URI) {
+    return { type: 'schema', name: 'icl' };
+  }
+
+  const match = uri.match(/^spheron:\/\/(leases|conversations|balance)\/([^/]+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const value = decodeURIComponent(match[2]);
+  switch (match[1]) {
+    case 'leases':
+      return /^[0-9]+$/.test(value) ? { type: 'lease', leaseId: value } : null;
+    case 'conversations':
+      return { type: 'conversation', conversationId: value };
+    default:
+      return { type: 'balance', token: value };
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Resource subscriptions and the watcher that reports lease state changes
+ */
+
+import logger from '../utils/logger.js';
+import { parseResourceUri } from './resource-uris.js';
+
+/**
+ * How the lease watcher reads lease state and reports changes
+ */
+export interface LeaseWatcherOptions {
+  intervalMs: number;
+  // Returns a value that changes whenever the lease's state changes
+  fetchLeaseState: (leaseId: string) => Promise<string>;
+  // Called with the URI of a subscribed lease whose state changed
+  onChange: (uri: string) => Promise<void>;
+}
+
+// Subscribers (client sessions) of each resource URI
+const subscriptions = new Map<string, Set<string>>();
+
+// Last seen state of each subscribed lease, keyed by URI
+const leaseStates = new Map<string, string>();
+
+let watcherOptions: LeaseWatcherOptions | null = null;
+let timer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Configure how subscribed leases are watched
+ * @param options Watcher options
+ */
+export function configureLeaseWatcher(options: LeaseWatcherOptions): void {
+  watcherOptions = options;
+  updateTimer();
+}
+
+/**
+ * Subscribe to updates of a resource
+ * @param uri Resource URI
+ * @param subscriber ID of the subscribing session
+ */
+export function subscribe(uri: string, subscriber: string): void {
+  const subscribers = subscriptions.get(uri) || new Set<string>();
+  subscribers.add(subscriber);
+  subscriptions.set(uri, subscribers);
+  updateTimer();
+}
+
+/**
+ * Unsubscribe from updates of a resource
+ * @param uri Resource URI
+ * @param subscriber ID of the subscribing session
+ */
+export function unsubscribe(uri: string, subscriber: string): void {
+  const subscribers = subscriptions.get(uri);
+  subscribers?.delete(subscriber);
+
+  if (subscribers && subscribers.size === 0) {
+    subscriptions.delete(uri);
+    leaseStates.delete(uri);
+  }
+  updateTimer();
+}
+
+/**
+ * Remove every subscription of a session, e.g. when it disconnects
+ * @param subscriber ID of the session
+ */
+export function removeSubscriber(subscriber: string): void {
+  for (const uri of getSubscriptions()) {
+    unsubscribe(uri, subscriber);
+  }
+}
+
+/**
+ * Check whether a resource has any subscribers
+ * @param uri Resource URI
+ * @returns True if subscribed
+ */
+export function isSubscribed(uri: string): boolean {
+  return subscriptions.has(uri);
+}
+
+/**
+ * List the sessions subscribed to a resource
+ * @param uri Resource URI
+ * @returns Session IDs
+ */
+export function getSubscribers(uri: string): string[] {
+  return [...(subscriptions.get(uri) || [])];
+}
+
+/**
+ * List subscribed resources
+ * @returns Subscribed resource URIs
+ */
+export function getSubscriptions(): string[] {
+  return [...subscriptions.keys()];
+}
+
+/**
+ * Check subscribed leases now and report the ones whose state changed.
+ * The first check of a lease only records its state.
+ * @param uris Lease URIs to check (defaults to all subscribed leases)
+ */
+export async function checkLeaseSubscriptions(uris: string[] = getSubscriptions()): Promise<void> {
+  if (!watcherOptions) {
+    return;
+  }
+
+  for (const uri of uris) {
+    const ref = parseResourceUri(uri);
+    if (!subscriptions.has(uri) || ref?.type !== 'lease') {
+      continue;
+    }
+
+    try {
+      const state = await watcherOptions.fetchLeaseState(ref.leaseId);
+      const previous = leaseStates.get(uri);
+      leaseStates.set(uri, state);
+
+      if (previous !== undefined && previous !== state) {
+        await watcherOptions.onChange(uri);
+      }
+    } catch (error) {
+      logger.warn('Resources', `Failed to check lease ${ref.leaseId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Run the polling timer only while leases are subscribed
+ */
+function updateTimer(): void {
+  const hasLeases = getSubscriptions().some(uri => parseResourceUri(uri)?.type === 'lease');
+
+  if (hasLeases && watcherOptions && !timer) {
+    timer = setInterval(poll, watcherOptions.intervalMs);
+    // Record the current state of new subscriptions straight away
+    void poll();
+  } else if (hasLeases && timer) {
+    void poll();
+  } else if (!hasLeases && timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Check all subscribed leases, skipping the run if the previous one is still going
+ */
+async function poll(): Promise<void> {
+  if (polling) {
+    return;
+  }
+
+  polling = true;
+  try {
+    await checkLeaseSubscriptions();
+  } finally {
+    polling = false;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Curated deployment templates
+ */
+
+import {
+  listTemplates,
+  getTemplate,
+  matchTemplates,
+  createTemplateService,
+  summarizeTemplate,
+  DEFAULT_TEMPLATE_ID,
+  DeploymentTemplate,
+  TemplateCategory,
+  LlmModel
+} from './catalog.js';
+
+export {
+  listTemplates,
+  getTemplate,
+  matchTemplates,
+  createTemplateService,
+  summarizeTemplate,
+  DEFAULT_TEMPLATE_ID,
+  DeploymentTemplate,
+  TemplateCategory,
+  LlmModel
+};
@@ -0,0 +1,175 @@
+/**
+ * Exact token amounts backed by BigInt base units
+ */
+
+export type RoundingMode = 'exact' | 'up' | 'down';
+
+/**
+ * A token amount stored as an integer number of base units.
+ * All parsing, formatting and comparison is exact; no floating point is involved.
+ */
+export class TokenAmount {
+  readonly raw: bigint;
+  readonly decimals: number;
+
+  private constructor(raw: bigint, decimals: number) {
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      throw new Error(`Invalid token decimals: ${decimals}`);
+    }
+    this.raw = raw;
+    this.decimals = decimals;
+  }
+
+  /**
+   * Create an amount from base units (e.g. "27984958" for 27.984958 CST)
+   * @param raw Integer number of base units
+   * @param decimals Number of decimal places of the token
+   * @returns Token amount
+   */
+  static fromRaw(raw: string | number | bigint, decimals: number): TokenAmount {
+    if (typeof raw === 'bigint') {
+      return new TokenAmount(raw, decimals);
+    }
+
+    const text = String(raw).trim();
+    if (!/^-?\d+$/.test(text)) {
+      throw new Error(`Invalid raw token amount: "${raw}"`);
+    }
+
+    return new TokenAmount(BigInt(text), decimals);
+  }
+
+  /**
+   * Create an amount from a decimal value (e.g. "27.984958")
+   * @param value Decimal value
+   * @param decimals Number of decimal places of the token
+   * @param rounding How to handle more fractional digits than the token supports
+   * @returns Token amount
+   */
+  static fromDecimal(value: string | number, decimals: number, rounding: RoundingMode = 'exact'): TokenAmount {
+    const text = typeof value === 'number' ? numberToPlainString(value) : value.trim();
+    const match = text.match(/^(-)?(\d*)(?:\.(\d*))?$/);
+    if (!match || (match[2] === '' && !match[3])) {
+      throw new Error(`Invalid token amount: "${value}"`);
+    }
+
+    const negative = match[1] === '-';
+    const whole = match[2] || '0';
+    const fraction = match[3] || '';
+    const kept = fraction.slice(0, decimals).padEnd(decimals, '0');
+    const dropped = fraction.slice(decimals);
+
+    let raw = BigInt(whole + kept);
+    if (/[1-9]/.test(dropped)) {
+      if (rounding === 'exact') {
+        throw new Error(`Token amount "${value}" has more than ${decimals} decimal places`);
+      }
+      // 'up' rounds towards positive infinity, 'down' towards negative infinity
+      if ((rounding === 'up' && !negative) || (rounding === 'down' && negative)) {
+        raw += 1n;
+      }
+    }
+
+    return new TokenAmount(negative ? -raw : raw, decimals);
+  }
+
+  /**
+   * Zero amount for a token
+   * @param decimals Number of decimal places of the token
+   * @returns Zero token amount
+   */
+  static zero(decimals: number): TokenAmount {
+    return new TokenAmount(0n, decimals);
+  }
+
+  /**
+   * Format the amount as a decimal string without trailing zeros
+   * @returns Decimal string (e.g. "27.984958")
+   */
+  format(): string {
+    const negative = this.raw < 0n;
+    const absolute = negative ? -this.raw : this.raw;
+    const divisor = 10n ** BigInt(this.decimals);
+    const whole = (absolute / divisor).toString();
+    const fraction = this.decimals > 0
+      ? (absolute % divisor).toString().padStart(this.decimals, '0').replace(/0+$/, '')
+      : '';
+
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Compare with another amount, rescaling if the decimals differ
+   * @param other Amount to compare with
+   * @returns -1, 0 or 1
+   */
+  compare(other: TokenAmount): -1 | 0 | 1 {
+    const [a, b] = rescale(this, other);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  gte(other: TokenAmount): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  lt(other: TokenAmount): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /**
+   * Add another amount of the same token
+   */
+  add(other: TokenAmount): TokenAmount {
+    const [a, b, decimals] = rescale(this, other);
+    return new TokenAmount(a + b, decimals);
+  }
+
+  /**
+   * Subtract another amount of the same token
+   */
+  sub(other: TokenAmount): TokenAmount {
+    const [a, b, decimals] = rescale(this, other);
+    return new TokenAmount(a - b, decimals);
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.raw < 0n;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  toJSON(): { raw: string; formatted: string } {
+    return {
+      raw: this.raw.toString(),
+      formatted: this.format()
+    };
+  }
+}
+
+/**
+ * Bring two amounts to the same number of decimals
+ */
+function rescale(a: TokenAmount, b: TokenAmount): [bigint, bigint, number] {
+  const decimals = Math.max(a.decimals, b.decimals);
+  return [
+    a.raw * 10n ** BigInt(decimals - a.decimals),
+    b.raw * 10n ** BigInt(decimals - b.decimals),
+    decimals
+  ];
+}
+
+/**
+ * Convert a number to a decimal string without exponent notation
+ */
+function numberToPlainString(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid token amount: ${value}`);
+  }
+  return value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+}
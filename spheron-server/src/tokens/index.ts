@@ -0,0 +1,24 @@
+/**
+ * Token registry and exact token amounts
+ */
+
+import { TokenAmount, RoundingMode } from './amount.js';
+import {
+  DEFAULT_TOKENS,
+  getTokens,
+  setTokens,
+  getToken,
+  UnknownTokenError,
+  TokenInfo
+} from './registry.js';
+
+export {
+  TokenAmount,
+  RoundingMode,
+  DEFAULT_TOKENS,
+  getTokens,
+  setTokens,
+  getToken,
+  UnknownTokenError,
+  TokenInfo
+};
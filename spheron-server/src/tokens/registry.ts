@@ -0,0 +1,137 @@
+/**
+ * Token registry: symbols, decimals and networks of supported tokens
+ */
+
+import pkg from 'fs-extra';
+const { readFileSync } = pkg;
+import logger from '../utils/logger.js';
+import { NETWORKS } from '../networks/index.js';
+import { getConfig } from '../config/index.js';
+
+/**
+ * A token the server can use
+ */
+export interface TokenInfo {
+  symbol: string;
+  decimals: number;
+  network: string;
+  name?: string;
+  address?: string;
+}
+
+/**
+ * Error thrown when a token is not in the registry
+ */
+export class UnknownTokenError extends Error {
+  readonly symbol: string;
+  readonly network: string;
+  readonly knownSymbols: string[];
+
+  constructor(symbol: string, network: string, knownSymbols: string[]) {
+    super(`Unknown token "${symbol}" on ${network}. Supported tokens: ${knownSymbols.join(', ') || 'none'}`);
+    this.name = 'UnknownTokenError';
+    this.symbol = symbol;
+    this.network = network;
+    this.knownSymbols = knownSymbols;
+  }
+}
+
+// Escrow tokens supported by the Spheron SDK
+const DEFAULT_TOKEN_SYMBOLS: Omit<TokenInfo, 'network'>[] = [
+  { symbol: 'CST', name: 'CST', decimals: 6 },
+  { symbol: 'USDT', name: 'Tether USD', decimals: 6 },
+  { symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+  { symbol: 'DAI', name: 'DAI', decimals: 18 },
+  { symbol: 'WETH', name: 'Wrapped ETH', decimals: 18 }
+];
+
+export const DEFAULT_TOKENS: TokenInfo[] = NETWORKS.flatMap(network =>
+  DEFAULT_TOKEN_SYMBOLS.map(token => ({ ...token, network }))
+);
+
+let tokens: TokenInfo[] | null = null;
+
+/**
+ * Get all registered tokens, loading them from the JSON file named by
+ * the tokensFile setting when set (the file replaces the default list).
+ * A token file that fails to load is an error: amounts must not be
+ * converted with decimals or addresses the operator did not configure.
+ * @returns Registered tokens
+ */
+export function getTokens(): TokenInfo[] {
+  if (tokens) {
+    return tokens;
+  }
+
+  const { tokensFile } = getConfig();
+  if (!tokensFile) {
+    tokens = DEFAULT_TOKENS;
+    return tokens;
+  }
+
+  try {
+    tokens = parseTokens(JSON.parse(readFileSync(tokensFile, 'utf8')));
+  } catch (error) {
+    throw new Error(`Invalid token registry ${tokensFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  logger.info('Tokens', `Loaded ${tokens.length} tokens from ${tokensFile}`);
+
+  return tokens;
+}
+
+/**
+ * Replace the registered tokens
+ * @param entries Token entries
+ * @returns Registered tokens
+ */
+export function setTokens(entries: unknown): TokenInfo[] {
+  tokens = parseTokens(entries);
+  return tokens;
+}
+
+/**
+ * Look up a token by symbol on a network
+ * @param symbol Token symbol (case-insensitive)
+ * @param network Network name
+ * @returns Token information
+ * @throws UnknownTokenError if the token is not registered on the network
+ */
+export function getToken(symbol: string, network: string): TokenInfo {
+  const onNetwork = getTokens().filter(token => token.network === network);
+  const token = onNetwork.find(entry => entry.symbol.toUpperCase() === symbol.toUpperCase());
+
+  if (!token) {
+    throw new UnknownTokenError(symbol, network, onNetwork.map(entry => entry.symbol));
+  }
+
+  return token;
+}
+
+/**
+ * Validate token registry entries
+ */
+function parseTokens(entries: unknown): TokenInfo[] {
+  if (!Array.isArray(entries)) {
+    throw new Error('Token registry must be an array of tokens');
+  }
+
+  return entries.map((entry, index) => {
+    if (!entry || typeof entry.symbol !== 'string' || entry.symbol.length === 0) {
+      throw new Error(`Token ${index}: "symbol" must be a non-empty string`);
+    }
+    if (!Number.isInteger(entry.decimals) || entry.decimals < 0 || entry.decimals > 36) {
+      throw new Error(`Token ${entry.symbol}: "decimals" must be an integer between 0 and 36`);
+    }
+    if (typeof entry.network !== 'string' || entry.network.length === 0) {
+      throw new Error(`Token ${entry.symbol}: "network" must be a non-empty string`);
+    }
+
+    return {
+      symbol: entry.symbol.toUpperCase(),
+      decimals: entry.decimals,
+      network: entry.network,
+      ...(entry.name ? { name: String(entry.name) } : {}),
+      ...(entry.address ? { address: String(entry.address) } : {})
+    };
+  });
+}
@@ -0,0 +1,909 @@
+/**
+ * MCP tool definitions for Spheron Protocol operations
+ *
+ * Every operation is registered as its own tool with a precise input schema.
+ * The legacy "spheron_operation" tool is kept as a dispatcher that accepts
+ * the union of all operation arguments plus an "operation" discriminator.
+ */
+
+import { NETWORKS } from '../networks/index.js';
+
+/**
+ * JSON schema subset used to describe tool arguments
+ */
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  minProperties?: number;
+  anyOf?: JsonSchema[];
+  // false rejects undeclared properties; a schema validates them
+  additionalProperties?: boolean | JsonSchema;
+  default?: unknown;
+}
+
+/**
+ * Tool annotations describing the behaviour of a tool to clients
+ */
+export interface ToolAnnotations {
+  title: string;
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  idempotentHint: boolean;
+  openWorldHint: boolean;
+}
+
+/**
+ * Tool definition as advertised through tools/list
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+  annotations: ToolAnnotations;
+}
+
+// Name of the backward-compatible dispatcher tool
+export const DISPATCHER_TOOL_NAME = 'spheron_operation';
+
+// Shared argument schemas
+const YAML_CONTENT: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'YAML content for deployment'
+};
+
+const YAML_PATH: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'Path to a YAML file on the server (alternative to yaml_content; not available over HTTP)'
+};
+
+const TOKEN: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: "Token symbol (e.g., 'CST', 'USDC')"
+};
+
+const WALLET_ADDRESS: JsonSchema = {
+  type: 'string',
+  pattern: '^0x[0-9a-fA-F]{40}$',
+  description: "Wallet address to check (defaults to the account's wallet)"
+};
+
+const ACCOUNT: JsonSchema = {
+  type: 'string',
+  pattern: '^[a-z0-9][a-z0-9_-]*$',
+  description: 'Name of the account to use (defaults to the default account; see list_accounts)'
+};
+
+const NETWORK: JsonSchema = {
+  type: 'string',
+  enum: NETWORKS,
+  description: 'Network to run against (defaults to SPHERON_NETWORK)'
+};
+
+const LEASE_NETWORK: JsonSchema = {
+  ...NETWORK,
+  description: 'Network of the lease (defaults to the network recorded for the deployment, else SPHERON_NETWORK)'
+};
+
+// Operations on an existing lease sign with the account that created it
+const LEASE_ACCOUNT: JsonSchema = {
+  ...ACCOUNT,
+  description: 'Name of the account that owns the lease (defaults to the account recorded for the deployment, else the default account)'
+};
+
+const LEASE_ID: JsonSchema = {
+  type: 'string',
+  pattern: '^[0-9]+$',
+  description: 'ID of the lease/deployment'
+};
+
+const PROVIDER_PROXY_URL: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'URL for the provider proxy server (defaults to environment variable)'
+};
+
+const SIZE: JsonSchema = {
+  type: 'string',
+  pattern: '^[0-9]+(\\.[0-9]+)?\\s*([KMGT]i?)B?$',
+  description: 'Size (e.g. "64Gi", "500GB")'
+};
+
+const AMOUNT: JsonSchema = {
+  type: 'string',
+  pattern: '^[0-9]+(\\.[0-9]+)?$',
+  description: 'Token amount as a decimal string (e.g. "25.5")'
+};
+
+const CONFIRMATION_TOKEN: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'One-time confirmation token returned by the first call; executes the transaction'
+};
+
+const IDEMPOTENCY_KEY: JsonSchema = {
+  type: 'string',
+  pattern: '^[A-Za-z0-9_.:-]{1,128}$',
+  description: 'Unique key for this request. Repeating the call with the same key returns the original result instead of spending again'
+};
+
+const DRY_RUN: JsonSchema = {
+  type: 'boolean',
+  default: false,
+  description: 'Validate the YAML, estimate its total cost and check the balance without deploying'
+};
+
+const DEPLOYMENT_NAME: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'Name to record the deployment under (e.g. "llama-inference")'
+};
+
+const DEPLOYMENT_LABELS: JsonSchema = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  description: 'Labels to record the deployment with'
+};
+
+const DEPLOYMENT_CONVERSATION_ID: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'ID of the natural_to_yaml conversation that produced the YAML'
+};
+
+const DEPLOYMENT_LABEL: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'Name or label of a recorded deployment'
+};
+
+const WAIT: JsonSchema = {
+  type: 'boolean',
+  default: false,
+  description: 'Wait until the services are ready and return their forwarded ports and URLs'
+};
+
+const WAIT_TIMEOUT_SECONDS: JsonSchema = {
+  type: 'integer',
+  minimum: 10,
+  maximum: 3600,
+  default: 600,
+  description: 'Seconds to wait for the services to become ready (defaults to 600)'
+};
+
+// Deployments need either inline YAML or a path to a YAML file
+const YAML_SOURCE_REQUIRED: JsonSchema[] = [
+  { required: ['yaml_content'] },
+  { required: ['yaml_path'] }
+];
+
+/**
+ * Per-operation tool definitions
+ */
+export const OPERATION_TOOLS: ToolDefinition[] = [
+  {
+    name: 'deploy_yaml',
+    description: 'Deploy a Spheron ICL YAML configuration. Spends CST from the escrow balance. The deployment is recorded locally with its YAML, name and labels. Pass an idempotency_key so a retried call cannot deploy twice.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        yaml_content: YAML_CONTENT,
+        yaml_path: YAML_PATH,
+        token: { ...TOKEN, description: 'Token used to pay for the deployment; must be the token of the YAML pricing, which is used when omitted' },
+        account: ACCOUNT,
+        network: NETWORK,
+        wallet_address: WALLET_ADDRESS,
+        provider_proxy_url: PROVIDER_PROXY_URL,
+        dry_run: DRY_RUN,
+        wait: WAIT,
+        wait_timeout_seconds: WAIT_TIMEOUT_SECONDS,
+        name: DEPLOYMENT_NAME,
+        labels: DEPLOYMENT_LABELS,
+        conversation_id: DEPLOYMENT_CONVERSATION_ID,
+        idempotency_key: IDEMPOTENCY_KEY
+      },
+      anyOf: YAML_SOURCE_REQUIRED,
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Deploy YAML',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'deploy_compute',
+    description: 'Deploy compute resources from a Spheron ICL YAML configuration (alias of deploy_yaml).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        yaml_content: YAML_CONTENT,
+        yaml_path: YAML_PATH,
+        token: { ...TOKEN, description: 'Token used to pay for the deployment; must be the token of the YAML pricing, which is used when omitted' },
+        account: ACCOUNT,
+        network: NETWORK,
+        wallet_address: WALLET_ADDRESS,
+        provider_proxy_url: PROVIDER_PROXY_URL,
+        dry_run: DRY_RUN,
+        wait: WAIT,
+        wait_timeout_seconds: WAIT_TIMEOUT_SECONDS,
+        name: DEPLOYMENT_NAME,
+        labels: DEPLOYMENT_LABELS,
+        conversation_id: DEPLOYMENT_CONVERSATION_ID,
+        idempotency_key: IDEMPOTENCY_KEY
+      },
+      anyOf: YAML_SOURCE_REQUIRED,
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Deploy compute',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'estimate_cost',
+    description: 'Estimate the hourly and total CST cost of a deployment from a YAML configuration or from resource requirements, using the configured rate table.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        yaml_content: { ...YAML_CONTENT, description: 'YAML content to estimate' },
+        yaml_path: YAML_PATH,
+        gpu_model: {
+          type: 'string',
+          minLength: 1,
+          description: 'GPU model (e.g. "rtx4090", "a100") when estimating from resources'
+        },
+        gpu_units: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Number of GPUs per replica'
+        },
+        cpu: {
+          type: 'number',
+          minimum: 0,
+          description: 'CPU cores per replica'
+        },
+        memory: { ...SIZE, description: 'Memory per replica (e.g. "64Gi")' },
+        storage: { ...SIZE, description: 'Storage per replica (e.g. "500Gi")' },
+        count: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Number of replicas (defaults to 1)'
+        },
+        duration: {
+          type: 'string',
+          pattern: '^[0-9]+(min|h|d|mon)$',
+          description: 'Deployment duration (e.g. "2h", "3d"; defaults to 2h)'
+        }
+      },
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Estimate cost',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'fetch_balance',
+    description: 'Fetch the locked and unlocked escrow balance for a token.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        token: TOKEN,
+        account: ACCOUNT,
+        network: NETWORK,
+        wallet_address: WALLET_ADDRESS
+      },
+      required: ['token'],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Fetch balance',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'deposit_escrow',
+    description: 'Deposit tokens from the wallet into the Spheron escrow. The first call returns a summary and a one-time confirmation token; call again with confirmation_token to execute.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        token: { ...TOKEN, description: "Token to deposit (e.g., 'CST')" },
+        amount: AMOUNT,
+        account: ACCOUNT,
+        network: NETWORK,
+        confirmation_token: CONFIRMATION_TOKEN,
+        idempotency_key: { ...IDEMPOTENCY_KEY, description: 'Unique key for this transfer, used with confirmation_token. Repeating the confirmed call with the same key returns the original transaction instead of sending it again' }
+      },
+      required: ['token', 'amount'],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Deposit to escrow',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'withdraw_escrow',
+    description: 'Withdraw unlocked tokens from the Spheron escrow to the wallet. The first call returns a summary and a one-time confirmation token; call again with confirmation_token to execute.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        token: { ...TOKEN, description: "Token to withdraw (e.g., 'CST')" },
+        amount: AMOUNT,
+        account: ACCOUNT,
+        network: NETWORK,
+        confirmation_token: CONFIRMATION_TOKEN,
+        idempotency_key: { ...IDEMPOTENCY_KEY, description: 'Unique key for this transfer, used with confirmation_token. Repeating the confirmed call with the same key returns the original transaction instead of sending it again' }
+      },
+      required: ['token', 'amount'],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Withdraw from escrow',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'fetch_deployment_urls',
+    description: 'Fetch service status, forwarded ports and URLs of a deployment.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lease_id: LEASE_ID,
+        account: LEASE_ACCOUNT,
+        network: LEASE_NETWORK,
+        provider_proxy_url: PROVIDER_PROXY_URL
+      },
+      required: ['lease_id'],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Fetch deployment URLs',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'wait_for_deployment',
+    description: 'Wait until the services of a deployment are ready, polling the provider with backoff, and return their forwarded ports and URLs. Reports progress while waiting and can be cancelled.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lease_id: LEASE_ID,
+        wait_timeout_seconds: WAIT_TIMEOUT_SECONDS,
+        account: LEASE_ACCOUNT,
+        network: LEASE_NETWORK,
+        provider_proxy_url: PROVIDER_PROXY_URL
+      },
+      required: ['lease_id'],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Wait for deployment',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'fetch_lease_id',
+    description: 'Fetch on-chain details of a lease by its ID.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lease_id: LEASE_ID,
+        account: ACCOUNT,
+        network: NETWORK
+      },
+      required: ['lease_id'],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Fetch lease details',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'list_leases',
+    description: "List leases of an account's wallet (or another wallet) with per-lease summaries: provider, GPU, cost rate and time remaining.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        state: {
+          type: 'string',
+          enum: ['active', 'terminated', 'all'],
+          default: 'active',
+          description: 'Lease state to list (defaults to active)'
+        },
+        account: ACCOUNT,
+        network: NETWORK,
+        wallet_address: { ...WALLET_ADDRESS, description: "Wallet address whose leases to list (defaults to the account's wallet)" },
+        page: {
+          type: 'integer',
+          minimum: 1,
+          default: 1,
+          description: 'Page number, starting at 1'
+        },
+        page_size: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 50,
+          default: 10,
+          description: 'Number of leases per page (max 50)'
+        },
+        sort: {
+          type: 'string',
+          enum: ['desc', 'asc'],
+          default: 'desc',
+          description: 'Sort by lease ID, which follows the order leases were created: newest first (desc) or oldest first (asc)'
+        }
+      },
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'List leases',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'list_my_deployments',
+    description: 'List deployments created through this server from the local registry, newest first, with their names, labels and estimated costs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['active', 'closed', 'all'],
+          default: 'all',
+          description: 'Status of the deployments to list (defaults to all)'
+        },
+        label: { ...DEPLOYMENT_LABEL, description: 'Only list deployments with this name or label' },
+        account: { ...ACCOUNT, description: 'Only list deployments made with this account' },
+        page: {
+          type: 'integer',
+          minimum: 1,
+          default: 1,
+          description: 'Page number, starting at 1'
+        },
+        page_size: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 50,
+          default: 10,
+          description: 'Number of deployments per page (max 50)'
+        }
+      },
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'List my deployments',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'get_deployment_record',
+    description: 'Get the local record of a deployment, including the YAML it was deployed with, by lease ID or by name/label.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lease_id: LEASE_ID,
+        label: DEPLOYMENT_LABEL
+      },
+      anyOf: [
+        { required: ['lease_id'] },
+        { required: ['label'] }
+      ],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Get deployment record',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'close_deployment',
+    description: 'Close a deployment and terminate its lease so it stops consuming escrow balance.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lease_id: LEASE_ID,
+        account: LEASE_ACCOUNT,
+        network: LEASE_NETWORK
+      },
+      required: ['lease_id'],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Close deployment',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'update_deployment',
+    description: 'Apply a new YAML configuration to an existing lease. Spends CST from the escrow balance.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lease_id: LEASE_ID,
+        yaml_content: YAML_CONTENT,
+        yaml_path: YAML_PATH,
+        token: { ...TOKEN, description: 'Token used to pay for the deployment; must be the token of the YAML pricing, which is used when omitted' },
+        account: LEASE_ACCOUNT,
+        network: LEASE_NETWORK,
+        wallet_address: WALLET_ADDRESS,
+        provider_proxy_url: PROVIDER_PROXY_URL
+      },
+      required: ['lease_id'],
+      anyOf: YAML_SOURCE_REQUIRED,
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Update deployment',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'extend_deployment',
+    description: 'Extend the duration of an existing lease by re-applying its YAML with a new duration. Pricing amounts are hourly rates and stay unchanged. Spends CST from the escrow balance.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lease_id: LEASE_ID,
+        duration: {
+          type: 'string',
+          pattern: '^[0-9]+(min|h|d|mon)$',
+          description: 'New total duration of the lease (e.g. "4h", "2d")'
+        },
+        yaml_content: { ...YAML_CONTENT, description: 'YAML content the lease was deployed with' },
+        yaml_path: YAML_PATH,
+        token: { ...TOKEN, description: 'Token used to pay for the deployment; must be the token of the YAML pricing, which is used when omitted' },
+        account: LEASE_ACCOUNT,
+        network: LEASE_NETWORK,
+        wallet_address: WALLET_ADDRESS,
+        provider_proxy_url: PROVIDER_PROXY_URL
+      },
+      required: ['lease_id', 'duration'],
+      anyOf: YAML_SOURCE_REQUIRED,
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Extend deployment',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'list_accounts',
+    description: 'List the configured wallet accounts with their addresses. Private keys are never returned.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'List accounts',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'diagnostics',
+    description: 'Check the server: version, network, wallet address, provider proxy reachability, SDK connectivity, Claude processor availability, conversation store size and the most recent errors, each with a pass, warn or fail status. Keys are never returned.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account: ACCOUNT,
+        network: NETWORK,
+        error_limit: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 50,
+          default: 10,
+          description: 'Maximum number of recent errors to report'
+        }
+      },
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Diagnostics',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  },
+  {
+    name: 'show_config',
+    description: 'Show the effective server configuration, the config file it was loaded from and the environment variables that override it. Secrets are redacted.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Show configuration',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'natural_to_yaml',
+    description: 'Convert a natural language description of compute requirements into Spheron ICL YAML, asking follow-up questions when information is missing.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        description: {
+          type: 'string',
+          minLength: 1,
+          description: 'Natural language description of compute requirements'
+        },
+        conversation_id: {
+          type: 'string',
+          minLength: 1,
+          description: 'Conversation ID for multi-turn conversations'
+        },
+        answer: {
+          type: 'string',
+          minLength: 1,
+          description: 'Answer to a follow-up question'
+        },
+        existing_yaml: {
+          type: 'string',
+          minLength: 1,
+          description: 'Existing YAML to update. Its comments and formatting are kept.'
+        },
+        target_service: {
+          type: 'string',
+          minLength: 1,
+          description: 'Service of existing_yaml to update (defaults to the first service)'
+        },
+        target_profile: {
+          type: 'string',
+          minLength: 1,
+          description: 'Compute profile of existing_yaml to update (defaults to the profiles the service is deployed with)'
+        },
+        target_region: {
+          type: 'string',
+          minLength: 1,
+          description: 'Placement of existing_yaml whose pricing and count to update (defaults to every placement of the service)'
+        }
+      },
+      anyOf: [
+        { required: ['description'] },
+        { required: ['conversation_id', 'answer'] }
+      ],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Natural language to YAML',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'list_templates',
+    description: 'List the curated deployment templates (Jupyter with PyTorch, vLLM, Ollama, ComfyUI, text-generation-webui, PostgreSQL, Redis, Ubuntu with SSH) with their image, ports and recommended resources.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        category: {
+          type: 'string',
+          enum: ['notebook', 'llm', 'image-generation', 'database', 'base'],
+          description: 'Only list templates of this category'
+        }
+      },
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'List templates',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'get_template',
+    description: 'Get a deployment template with its ports, environment and recommended resources, and ICL YAML ready to deploy.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        template_id: {
+          type: 'string',
+          minLength: 1,
+          description: 'Template ID from list_templates (e.g. "vllm")'
+        }
+      },
+      required: ['template_id'],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Get template',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'compose_to_yaml',
+    description: 'Convert a docker-compose file into Spheron ICL YAML. Converts the image, ports, expose, environment, entrypoint, command, CPU and memory limits, GPU reservations, replicas and volumes of each service, and reports the compose features that were left out or approximated.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        compose_content: {
+          type: 'string',
+          minLength: 1,
+          description: 'docker-compose YAML content'
+        },
+        compose_path: {
+          type: 'string',
+          minLength: 1,
+          description: 'Path to a docker-compose file on the server (alternative to compose_content; not available over HTTP)'
+        },
+        gpu_model: {
+          type: 'string',
+          minLength: 1,
+          description: 'GPU model (e.g. "rtx4090", "a100") of the services that reserve GPUs, since compose does not name one'
+        },
+        duration: {
+          type: 'string',
+          pattern: '^[0-9]+(min|h|d|mon)$',
+          description: 'Deployment duration (e.g. "2h", "3d"; defaults to 2h)'
+        },
+        region: {
+          type: 'string',
+          minLength: 1,
+          description: 'Placement region of the services'
+        }
+      },
+      anyOf: [
+        { required: ['compose_content'] },
+        { required: ['compose_path'] }
+      ],
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Compose to YAML',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  {
+    name: 'validate_yaml',
+    description: 'Validate a Spheron ICL YAML configuration against the ICL schema and check the references between services, compute profiles, placements, pricing and the deployment section. Returns errors and warnings with YAML paths and line and column numbers.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        yaml_content: { ...YAML_CONTENT, description: 'YAML content to validate' },
+        yaml_path: YAML_PATH
+      },
+      anyOf: YAML_SOURCE_REQUIRED,
+      additionalProperties: false
+    },
+    annotations: {
+      title: 'Validate YAML',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  }
+];
+
+/**
+ * Get the definition of an operation tool
+ * @param name Tool/operation name
+ * @returns Tool definition or undefined if not found
+ */
+export function getOperationTool(name: string): ToolDefinition | undefined {
+  return OPERATION_TOOLS.find(tool => tool.name === name);
+}
+
+/**
+ * Build the backward-compatible dispatcher tool from the operation tools
+ * @returns Dispatcher tool definition
+ */
+export function buildDispatcherTool(): ToolDefinition {
+  const properties: Record<string, JsonSchema> = {
+    operation: {
+      type: 'string',
+      enum: OPERATION_TOOLS.map(tool => tool.name),
+      description: 'The operation to perform'
+    }
+  };
+
+  // Merge operation arguments, keeping the first description seen for shared names
+  for (const tool of OPERATION_TOOLS) {
+    for (const [key, schema] of Object.entries(tool.inputSchema.properties || {})) {
+      if (!properties[key]) {
+        properties[key] = schema;
+      }
+    }
+  }
+
+  return {
+    name: DISPATCHER_TOOL_NAME,
+    description: 'Perform operations with Spheron Protocol (legacy dispatcher; prefer the per-operation tools)',
+    inputSchema: {
+      type: 'object',
+      properties,
+      required: ['operation']
+    },
+    annotations: {
+      title: 'Spheron operation',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true
+    }
+  };
+}
+
+/**
+ * List all tools advertised by the server
+ * @returns Tool definitions
+ */
+export function listTools(): ToolDefinition[] {
+  return [...OPERATION_TOOLS, buildDispatcherTool()];
+}
@@ -0,0 +1,35 @@
+/**
+ * MCP tool registry and argument validation
+ */
+
+import {
+  OPERATION_TOOLS,
+  DISPATCHER_TOOL_NAME,
+  getOperationTool,
+  buildDispatcherTool,
+  listTools,
+  JsonSchema,
+  ToolAnnotations,
+  ToolDefinition
+} from './definitions.js';
+import {
+  validateSchema,
+  validateToolArguments,
+  ValidationIssue,
+  ValidationOptions
+} from './validation.js';
+
+export {
+  OPERATION_TOOLS,
+  DISPATCHER_TOOL_NAME,
+  getOperationTool,
+  buildDispatcherTool,
+  listTools,
+  JsonSchema,
+  ToolAnnotations,
+  ToolDefinition,
+  validateSchema,
+  validateToolArguments,
+  ValidationIssue,
+  ValidationOptions
+};
@@ -0,0 +1,181 @@
+/**
+ * Argument validation for MCP tool calls
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { JsonSchema, ToolDefinition } from './definitions.js';
+
+/**
+ * A single argument validation issue
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validation options
+ */
+export interface ValidationOptions {
+  // Ignore properties that are not declared in the schema
+  allowUnknown?: boolean;
+}
+
+/**
+ * Validate a value against a JSON schema
+ * @param schema JSON schema
+ * @param value Value to validate
+ * @param path Path of the value, used in issue messages
+ * @param options Validation options
+ * @returns List of validation issues (empty if valid)
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  options: ValidationOptions = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ path, message: `must be of type ${schema.type}` });
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      issues.push(...validateSchema(schema.items!, item, `${path}[${index}]`, options));
+    });
+  }
+
+  if (schema.type === 'object' && isPlainObject(value)) {
+    issues.push(...validateObject(schema, value, path, options));
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the properties of an object value
+ */
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  options: ValidationOptions
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const properties = schema.properties || {};
+  const prefix = path ? `${path}.` : '';
+
+  for (const key of schema.required || []) {
+    if (value[key] === undefined) {
+      issues.push({ path: `${prefix}${key}`, message: 'is required' });
+    }
+  }
+
+  if (schema.minProperties !== undefined && Object.keys(value).length < schema.minProperties) {
+    issues.push({ path: path || '(root)', message: `must have at least ${schema.minProperties} ${schema.minProperties === 1 ? 'entry' : 'entries'}` });
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    if (propertyValue === undefined) {
+      continue;
+    }
+
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      issues.push(...validateSchema(propertySchema, propertyValue, `${prefix}${key}`, options));
+    } else if (typeof schema.additionalProperties === 'object') {
+      issues.push(...validateSchema(schema.additionalProperties, propertyValue, `${prefix}${key}`, options));
+    } else if (schema.additionalProperties === false && !options.allowUnknown) {
+      issues.push({ path: `${prefix}${key}`, message: 'is not a recognized argument' });
+    }
+  }
+
+  // anyOf is only used to express alternative sets of required arguments
+  if (schema.anyOf && schema.anyOf.length > 0) {
+    const satisfied = schema.anyOf.some(alternative =>
+      (alternative.required || []).every(key => value[key] !== undefined)
+    );
+    if (!satisfied) {
+      const alternatives = schema.anyOf
+        .map(alternative => (alternative.required || []).join(' + '))
+        .join(' or ');
+      issues.push({ path: path || '(arguments)', message: `requires ${alternatives}` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check whether a value matches a JSON schema type
+ */
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate tool call arguments, throwing a structured InvalidParams error
+ * @param tool Tool definition whose schema the arguments must satisfy
+ * @param args Tool call arguments
+ * @param options Validation options
+ * @throws McpError with ErrorCode.InvalidParams and the list of issues as data
+ */
+export function validateToolArguments(
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  options: ValidationOptions = {}
+): void {
+  const issues = validateSchema(tool.inputSchema, args, '', options);
+
+  if (issues.length > 0) {
+    const summary = issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for ${tool.name}: ${summary}`,
+      { tool: tool.name, issues }
+    );
+  }
+}
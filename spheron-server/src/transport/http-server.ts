@@ -0,0 +1,295 @@
+/**
+ * HTTP transport: serves MCP over Streamable HTTP and SSE to several clients, one session per connection
+ */
+
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../utils/logger.js';
+
+/**
+ * HTTP transport options
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  // Bearer token clients must send; required unless the host is a loopback address
+  authToken?: string;
+  // Origins allowed to call the server from a browser ("*" allows any origin)
+  corsOrigins: string[];
+  // Create the MCP server of a new session
+  createSession: (sessionId: string) => { server: Server };
+  // Release the state of a closed session
+  closeSession: (sessionId: string) => void;
+}
+
+/**
+ * Running HTTP transport
+ */
+export interface HttpTransport {
+  httpServer: HttpServer;
+  // Number of connected sessions
+  sessionCount: () => number;
+  // Stop accepting connections, wait for drain, then close all sessions
+  shutdown: (drain?: () => Promise<void>) => Promise<void>;
+}
+
+// Path of the Streamable HTTP endpoint
+export const MCP_PATH = '/mcp';
+// Path of the SSE stream and of the endpoint clients post messages to
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+// Largest JSON-RPC message accepted, as for SSE messages
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Check a request's bearer token in constant time
+ * @param req HTTP request
+ * @param authToken Expected token
+ * @returns True if the request is authorized
+ */
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Set CORS headers for an allowed origin
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param corsOrigins Allowed origins
+ */
+function applyCors(req: IncomingMessage, res: ServerResponse, corsOrigins: string[]): void {
+  const origin = req.headers.origin;
+  if (!origin || corsOrigins.length === 0) {
+    return;
+  }
+
+  if (corsOrigins.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (corsOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  } else {
+    return;
+  }
+
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+/**
+ * Send a JSON-RPC error that answers no particular request
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Read and parse a JSON request body
+ * @param req HTTP request
+ * @returns Parsed body
+ * @throws Error if the body is too large or is not JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Start serving MCP over HTTP.
+ *
+ * Streamable HTTP clients post an initialize request to /mcp and send the
+ * Mcp-Session-Id header returned with it on every later request. SSE clients
+ * open a stream with GET /sse and post JSON-RPC messages to
+ * /messages?sessionId=<id>. Either way each session has its own MCP server.
+ * GET /health reports the number of sessions and needs no token.
+ * @param options Transport options
+ * @returns Running transport
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransport> {
+  if (!options.authToken && !LOOPBACK_HOSTS.includes(options.host)) {
+    throw new Error(`An auth token is required to serve HTTP on ${options.host}; set SPHERON_HTTP_AUTH_TOKEN or bind to 127.0.0.1`);
+  }
+  if (!options.authToken) {
+    logger.warn('HTTP', 'No auth token set; only clients on this machine can connect');
+  }
+
+  const transports = new Map<string, SSEServerTransport | StreamableHTTPServerTransport>();
+  let shuttingDown = false;
+
+  // Create the MCP server of a new session and connect it to the session's transport
+  const connectSession = async (sessionId: string, transport: SSEServerTransport | StreamableHTTPServerTransport) => {
+    const { server } = options.createSession(sessionId);
+    transports.set(sessionId, transport);
+
+    // connect() takes over transport.onclose, so listen on the server
+    server.onclose = () => {
+      if (transports.delete(sessionId)) {
+        options.closeSession(sessionId);
+        logger.info('HTTP', `Session ${sessionId} closed (${transports.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    logger.info('HTTP', `Session ${sessionId} connected (${transports.size} active)`);
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    applyCors(req, res, options.corsOrigins);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, shuttingDown ? 503 : 200, { status: shuttingDown ? 'shutting_down' : 'ok', sessions: transports.size });
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      if (url.pathname === MCP_PATH) {
+        const sessionId = req.headers['mcp-session-id'];
+
+        if (typeof sessionId === 'string' && sessionId) {
+          const transport = transports.get(sessionId);
+          if (!(transport instanceof StreamableHTTPServerTransport)) {
+            sendJsonRpcError(res, 404, -32001, `Unknown session: ${sessionId}`);
+            return;
+          }
+
+          await transport.handleRequest(req, res);
+          return;
+        }
+
+        if (req.method !== 'POST') {
+          sendJsonRpcError(res, 400, -32000, 'Missing Mcp-Session-Id header');
+          return;
+        }
+        if (shuttingDown) {
+          sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+          return;
+        }
+
+        let body: unknown;
+        try {
+          body = await readJsonBody(req);
+        } catch (error) {
+          sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+          return;
+        }
+        if (!isInitializeRequest(body)) {
+          sendJsonRpcError(res, 400, -32000, 'A new session must start with an initialize request');
+          return;
+        }
+
+        // The session ID is chosen here so the session's MCP server can be created before the request is handled
+        const newSessionId = randomUUID();
+        const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => newSessionId });
+        await connectSession(newSessionId, transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        if (shuttingDown) {
+          sendJson(res, 503, { error: 'Server is shutting down' });
+          return;
+        }
+
+        // connect() starts the transport, which writes the SSE headers
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        await connectSession(transport.sessionId, transport);
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+        const sessionId = url.searchParams.get('sessionId') || '';
+        const transport = transports.get(sessionId);
+        if (!(transport instanceof SSEServerTransport)) {
+          sendJson(res, 404, { error: `Unknown session: ${sessionId}` });
+          return;
+        }
+
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (error) {
+      logger.error('HTTP', `Failed to handle ${req.method} ${url.pathname}`, error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  logger.info('HTTP', `Serving MCP over Streamable HTTP at http://${options.host}:${options.port}${MCP_PATH} and over SSE at ${SSE_PATH}`);
+
+  return {
+    httpServer,
+    sessionCount: () => transports.size,
+    shutdown: async (drain?: () => Promise<void>) => {
+      shuttingDown = true;
+
+      // Stop accepting connections; open sessions stay up until work in progress is done
+      const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      if (drain) {
+        await drain();
+      }
+      await Promise.all([...transports.values()].map(transport => transport.close()));
+      await closed;
+
+      logger.info('HTTP', 'HTTP transport stopped');
+    }
+  };
+}
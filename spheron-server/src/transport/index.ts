@@ -0,0 +1,21 @@
+/**
+ * Transports the server can be served over besides stdio
+ */
+
+import {
+  startHttpTransport,
+  MCP_PATH,
+  SSE_PATH,
+  MESSAGES_PATH,
+  HttpTransportOptions,
+  HttpTransport
+} from './http-server.js';
+
+export {
+  startHttpTransport,
+  MCP_PATH,
+  SSE_PATH,
+  MESSAGES_PATH,
+  HttpTransportOptions,
+  HttpTransport
+};
@@ -0,0 +1,46 @@
+/**
+ * Helpers for Spheron ICL duration strings (e.g. "2h", "3d", "1mon")
+ */
+
+// Hours per supported duration unit
+const HOURS_PER_UNIT: Record<string, number> = {
+  min: 1 / 60,
+  h: 1,
+  d: 24,
+  mon: 24 * 30
+};
+
+// Same format as profiles.duration in the ICL schema: a whole number and a lowercase unit
+const DURATION_REGEX = /^([0-9]+)(min|h|d|mon)$/;
+
+/**
+ * Convert a duration string to hours
+ * @param duration Duration string (e.g. "2h", "3d", "1mon")
+ * @returns Number of hours, or null if the duration is invalid
+ */
+export function parseDurationHours(duration: string): number | null {
+  const match = duration.match(DURATION_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  return parseInt(match[1], 10) * HOURS_PER_UNIT[match[2]];
+}
+
+/**
+ * Format a number of hours as a duration string
+ * @param hours Number of hours
+ * @returns Duration string using the largest unit that divides the hours exactly
+ */
+export function formatDurationHours(hours: number): string {
+  if (hours >= 24 * 30 && hours % (24 * 30) === 0) {
+    return `${hours / (24 * 30)}mon`;
+  }
+  if (hours >= 24 && hours % 24 === 0) {
+    return `${hours / 24}d`;
+  }
+  if (Number.isInteger(hours)) {
+    return `${hours}h`;
+  }
+  return `${Math.round(hours * 60)}min`;
+}
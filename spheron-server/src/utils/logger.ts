@@ -37,7 +37,42 @@ export function getLogLevel(): LogLevel {
 }
 
 // Current log level
-const currentLogLevel = getLogLevel();
+let currentLogLevel = getLogLevel();
+
+/**
+ * Change the log level, e.g. once the configuration file has been loaded
+ * @param level New log level
+ */
+export function setLogLevel(level: LogLevel): void {
+  currentLogLevel = level;
+}
+
+/**
+ * An error logged with error(), kept for diagnostics
+ */
+export interface LoggedError {
+  timestamp: string;
+  category: string;
+  message: string;
+  error?: string;
+  // Code of a typed error
+  code?: string;
+}
+
+// Number of logged errors kept for diagnostics
+const MAX_RECENT_ERRORS = 50;
+
+// Most recently logged errors, oldest first, kept whatever the log level
+const recentErrors: LoggedError[] = [];
+
+/**
+ * Get the most recently logged errors
+ * @param limit Maximum number of errors
+ * @returns Errors, newest first
+ */
+export function getRecentErrors(limit: number = MAX_RECENT_ERRORS): LoggedError[] {
+  return recentErrors.slice(-limit).reverse();
+}
 
 /**
  * Format a log message with timestamp and category
@@ -57,6 +92,19 @@ function formatLogMessage(category: string, message: string): string {
  * @param error Optional error object
  */
 export function error(category: string, message: string, error?: unknown): void {
+  recentErrors.push({
+    timestamp: new Date().toISOString(),
+    category,
+    message,
+    ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+    ...(error instanceof Error && 'errorCode' in error && typeof error.errorCode === 'string'
+      ? { code: error.errorCode }
+      : {})
+  });
+  if (recentErrors.length > MAX_RECENT_ERRORS) {
+    recentErrors.shift();
+  }
+
   if (currentLogLevel >= LogLevel.ERROR) {
     const formattedMessage = formatLogMessage(category, message);
     if (error) {
@@ -116,5 +164,7 @@ export default {
   warn,
   info,
   debug,
+  setLogLevel,
+  getRecentErrors,
   LogLevel
 };
@@ -0,0 +1,52 @@
+/**
+ * Local JSON file storage for server state that must survive restarts
+ */
+
+import pkg from 'fs-extra';
+const { ensureDirSync, existsSync, readFileSync, writeFileSync, renameSync } = pkg;
+import * as path from 'path';
+import { getConfig } from '../config/index.js';
+
+/**
+ * Get the directory used for local server state
+ * @returns The configured data directory (~/.spheron-mcp by default)
+ */
+export function getDataDir(): string {
+  return getConfig().dataDir;
+}
+
+/**
+ * Resolve a file name inside the data directory
+ * @param fileName File name
+ * @returns Absolute file path
+ */
+export function getDataFile(fileName: string): string {
+  return path.join(getDataDir(), fileName);
+}
+
+/**
+ * Read a JSON file
+ * @param filePath File path
+ * @param fallback Value returned when the file does not exist
+ * @returns Parsed file content
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!existsSync(filePath)) {
+    return fallback;
+  }
+
+  return JSON.parse(readFileSync(filePath, 'utf8')) as T;
+}
+
+/**
+ * Write a JSON file atomically (write to a temporary file, then rename)
+ * @param filePath File path
+ * @param data Data to write
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  ensureDirSync(path.dirname(filePath));
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  renameSync(tempPath, filePath);
+}
@@ -3,53 +3,80 @@
  */
 
 import * as yaml from 'js-yaml';
-import { ExtractedParams } from '../natural-language-processor/index.js';
+import {
+  ExtractedParams,
+  ServiceParams,
+  listServices,
+  DEFAULT_SERVICE_PARAMS
+} from '../natural-language-processor/index.js';
+import { estimateHourlyRate } from '../pricing/index.js';
+import { getConfig } from '../config/index.js';
+import { validateIcl, formatIclIssue } from './icl-validator.js';
+import { getTemplate, DEFAULT_TEMPLATE_ID, DeploymentTemplate } from '../templates/index.js';
+
+// The main service defaults to the ports and environment of the default template
+const DEFAULT_TEMPLATE = getTemplate(DEFAULT_TEMPLATE_ID) as DeploymentTemplate;
 
 /**
- * Generate YAML configuration from extracted parameters
+ * Generate YAML configuration from extracted parameters. Each service gets a compute
+ * profile of the same name, priced in the one placement the deployment uses.
  * @param params Extracted parameters
  * @returns YAML configuration
  */
 export function generateYaml(params: ExtractedParams): string {
+  const { defaultImage, defaultRegion } = getConfig().deployment;
+  const region = params.region || defaultRegion;
+  const [main, ...others] = listServices(params);
+
+  const services: Record<string, any> = {};
+  const compute: Record<string, any> = {};
+  const pricing: Record<string, any> = {};
+  const deployment: Record<string, any> = {};
+
+  const addService = (service: ServiceParams & { name: string }) => {
+    if (services[service.name]) {
+      throw new Error(`Service "${service.name}" is defined more than once`);
+    }
+    services[service.name] = generateServiceConfig(service);
+    compute[service.name] = { resources: generateResourcesConfig(service) };
+    pricing[service.name] = {
+      token: 'CST', // Always CST
+      amount: service.amount ?? estimateHourlyRate(service)
+    };
+    deployment[service.name] = {
+      [region]: {
+        profile: service.name,
+        count: service.count || 1
+      }
+    };
+  };
+
+  addService({
+    ...main,
+    image: main.image || defaultImage,
+    ports: main.ports ?? DEFAULT_TEMPLATE.service.ports,
+    env: main.env || DEFAULT_TEMPLATE.service.env
+  });
+  for (const service of others) {
+    addService({ ...DEFAULT_SERVICE_PARAMS, ...service });
+  }
+
   // Create the YAML structure
   const yamlConfig = {
     version: '1.0',
-    services: {
-      [params.name || 'py-cuda']: {
-        image: params.image || 'spheronnetwork/jupyter-notebook:pytorch-2.4.1-cuda-enabled',
-        pull_policy: params.pullPolicy || 'IfNotPresent',
-        expose: generateExposeConfig(params),
-        env: generateEnvConfig(params)
-      }
-    },
+    services,
     profiles: {
-      name: params.name || 'py-cuda',
+      name: main.name,
       duration: params.duration || '2h',
       mode: params.mode || 'provider',
-      compute: {
-        [params.name || 'py-cuda']: {
-          resources: generateResourcesConfig(params)
-        }
-      },
+      compute,
       placement: {
-        [params.region || 'westcoast']: {
-          pricing: {
-            [params.name || 'py-cuda']: {
-              token: 'CST', // Always CST
-              amount: params.amount || 15
-            }
-          }
+        [region]: {
+          pricing
         }
       }
     },
-    deployment: {
-      [params.name || 'py-cuda']: {
-        [params.region || 'westcoast']: {
-          profile: params.name || 'py-cuda',
-          count: params.count || 1
-        }
-      }
-    }
+    deployment
   };
   
   // Convert to YAML
@@ -61,66 +88,69 @@ export function generateYaml(params: ExtractedParams): string {
 }
 
 /**
- * Generate expose configuration
- * @param params Extracted parameters
+ * Generate the configuration of one service. Command, args, expose and env are left out when empty.
+ * @param service Service parameters
+ * @returns Service configuration
+ */
+export function generateServiceConfig(service: ServiceParams): any {
+  const config: any = {
+    image: service.image,
+    pull_policy: service.pullPolicy || 'IfNotPresent'
+  };
+
+  if (service.command && service.command.length > 0) {
+    config.command = service.command;
+  }
+  if (service.args && service.args.length > 0) {
+    config.args = service.args;
+  }
+  if (service.ports && service.ports.length > 0) {
+    config.expose = generateExposeConfig(service);
+  }
+  if (service.env && Object.keys(service.env).length > 0) {
+    config.env = generateEnvConfig(service);
+  }
+
+  return config;
+}
+
+/**
+ * Generate expose configuration. A port is public unless it lists the services
+ * that may connect to it, or global is false.
+ * @param service Service parameters
  * @returns Expose configuration
  */
-function generateExposeConfig(params: ExtractedParams): any[] {
-  if (params.ports && params.ports.length > 0) {
-    return params.ports.map(port => ({
+export function generateExposeConfig(service: ServiceParams): any[] {
+  return (service.ports || []).map(port => {
+    const targets = port.services || [];
+    const to: any[] = targets.map(target => ({ service: target }));
+    if (port.global ?? targets.length === 0) {
+      to.unshift({ global: true });
+    }
+
+    return {
       port: port.port,
       as: port.as || port.port,
-      to: [
-        {
-          global: port.global !== undefined ? port.global : true
-        }
-      ]
-    }));
-  }
-  
-  // Default ports for Jupyter notebook
-  return [
-    {
-      port: 8888,
-      as: 8888,
-      to: [
-        {
-          global: true
-        }
-      ]
-    },
-    {
-      port: 3000,
-      as: 3000,
-      to: [
-        {
-          global: true
-        }
-      ]
-    }
-  ];
+      to
+    };
+  });
 }
 
 /**
  * Generate environment variables configuration
- * @param params Extracted parameters
+ * @param service Service parameters
  * @returns Environment variables configuration
  */
-function generateEnvConfig(params: ExtractedParams): string[] {
-  if (params.env) {
-    return Object.entries(params.env).map(([key, value]) => `${key}=${value}`);
-  }
-  
-  // Default environment variables for Jupyter notebook
-  return ['JUPYTER_TOKEN=test'];
+export function generateEnvConfig(service: ServiceParams): string[] {
+  return Object.entries(service.env || {}).map(([key, value]) => `${key}=${value}`);
 }
 
 /**
  * Generate resources configuration
- * @param params Extracted parameters
+ * @param params Service parameters
  * @returns Resources configuration
  */
-function generateResourcesConfig(params: ExtractedParams): any {
+export function generateResourcesConfig(params: ServiceParams): any {
   const resources: any = {
     cpu: {
       units: params.cpu || 16
@@ -146,7 +176,7 @@ function generateResourcesConfig(params: ExtractedParams): any {
   }
   
   // Add GPU if specified
-  if (params.gpu) {
+  if (params.gpu && params.gpu.units !== 0) {
     resources.gpu = {
       units: params.gpu.units || 1,
       attributes: {
@@ -165,209 +195,16 @@ function generateResourcesConfig(params: ExtractedParams): any {
 }
 
 /**
- * Validate YAML configuration
+ * Validate YAML configuration against the ICL schema and check references between its sections
  * @param yamlConfig YAML configuration
- * @returns Validation result
+ * @returns Validation result with each error and warning described on one line
  */
-export function validateYaml(yamlConfig: string): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  
-  try {
-    // Parse YAML
-    const config = yaml.load(yamlConfig) as any;
-    
-    // Check version
-    if (config.version !== '1.0') {
-      errors.push('Version must be "1.0"');
-    }
-    
-    // Check services
-    if (!config.services || Object.keys(config.services).length === 0) {
-      errors.push('At least one service must be defined');
-    }
-    
-    // Check profiles
-    if (!config.profiles) {
-      errors.push('Profiles must be defined');
-    } else {
-      // Check duration
-      if (!config.profiles.duration) {
-        errors.push('Duration must be specified');
-      }
-      
-      // Check mode
-      if (!config.profiles.mode) {
-        errors.push('Mode must be specified');
-      }
-      
-      // Check compute
-      if (!config.profiles.compute || Object.keys(config.profiles.compute).length === 0) {
-        errors.push('Compute resources must be defined');
-      }
-      
-      // Check placement
-      if (!config.profiles.placement || Object.keys(config.profiles.placement).length === 0) {
-        errors.push('Placement must be defined');
-      } else {
-        // Check pricing
-        for (const region of Object.keys(config.profiles.placement)) {
-          const placement = config.profiles.placement[region];
-          if (!placement.pricing || Object.keys(placement.pricing).length === 0) {
-            errors.push(`Pricing must be defined for region "${region}"`);
-          } else {
-            // Check token
-            for (const profile of Object.keys(placement.pricing)) {
-              const pricing = placement.pricing[profile];
-              if (pricing.token !== 'CST') {
-                errors.push(`Token must be "CST" for profile "${profile}" in region "${region}"`);
-              }
-            }
-          }
-        }
-      }
-    }
-    
-    // Check deployment
-    if (!config.deployment || Object.keys(config.deployment).length === 0) {
-      errors.push('Deployment must be defined');
-    }
-  } catch (error) {
-    errors.push(`Invalid YAML: ${error instanceof Error ? error.message : String(error)}`);
-  }
-  
+export function validateYaml(yamlConfig: string): { valid: boolean; errors: string[]; warnings: string[] } {
+  const result = validateIcl(yamlConfig);
+
   return {
-    valid: errors.length === 0,
-    errors
+    valid: result.valid,
+    errors: result.errors.map(formatIclIssue),
+    warnings: result.warnings.map(formatIclIssue)
   };
 }
-
-/**
- * Update existing YAML configuration with new parameters
- * @param existingYaml Existing YAML configuration
- * @param params New parameters
- * @returns Updated YAML configuration
- */
-export function updateYaml(existingYaml: string, params: ExtractedParams): string {
-  try {
-    // Parse existing YAML
-    const config = yaml.load(existingYaml) as any;
-    
-    // Update services
-    if (config.services) {
-      const serviceName = Object.keys(config.services)[0];
-      const service = config.services[serviceName];
-      
-      if (params.image) {
-        service.image = params.image;
-      }
-      
-      if (params.pullPolicy) {
-        service.pull_policy = params.pullPolicy;
-      }
-      
-      if (params.ports) {
-        service.expose = generateExposeConfig(params);
-      }
-      
-      if (params.env) {
-        service.env = generateEnvConfig(params);
-      }
-    }
-    
-    // Update profiles
-    if (config.profiles) {
-      if (params.name) {
-        config.profiles.name = params.name;
-      }
-      
-      if (params.duration) {
-        config.profiles.duration = params.duration;
-      }
-      
-      if (params.mode) {
-        config.profiles.mode = params.mode;
-      }
-      
-      // Update compute resources
-      if (config.profiles.compute) {
-        const computeName = Object.keys(config.profiles.compute)[0];
-        const compute = config.profiles.compute[computeName];
-        
-        if (compute.resources) {
-          if (params.cpu) {
-            compute.resources.cpu = { units: params.cpu };
-          }
-          
-          if (params.memory) {
-            compute.resources.memory = { size: params.memory };
-          }
-          
-          if (params.storage) {
-            compute.resources.storage = [{ size: params.storage }];
-          }
-          
-          if (params.gpu) {
-            compute.resources.gpu = {
-              units: params.gpu.units || 1,
-              attributes: {
-                vendor: {
-                  nvidia: [
-                    {
-                      model: params.gpu.model || 'rtx6000-ada'
-                    }
-                  ]
-                }
-              }
-            };
-          }
-        }
-      }
-      
-      // Update placement
-      if (config.profiles.placement) {
-        const regionName = Object.keys(config.profiles.placement)[0];
-        const placement = config.profiles.placement[regionName];
-        
-        if (placement.pricing) {
-          const pricingName = Object.keys(placement.pricing)[0];
-          const pricing = placement.pricing[pricingName];
-          
-          // Always set token to CST
-          pricing.token = 'CST';
-          
-          if (params.amount) {
-            pricing.amount = params.amount;
-          }
-        }
-      }
-    }
-    
-    // Update deployment
-    if (config.deployment) {
-      const deploymentName = Object.keys(config.deployment)[0];
-      const deployment = config.deployment[deploymentName];
-      
-      const regionName = Object.keys(deployment)[0];
-      const region = deployment[regionName];
-      
-      if (params.name) {
-        region.profile = params.name;
-      }
-      
-      if (params.count) {
-        region.count = params.count;
-      }
-    }
-    
-    // Convert back to YAML
-    return yaml.dump(config, {
-      indent: 2,
-      lineWidth: -1,
-      noRefs: true
-    });
-  } catch (error) {
-    console.error('[Error] Failed to update YAML:', error);
-    // If updating fails, generate a new YAML
-    return generateYaml(params);
-  }
-}
@@ -0,0 +1,259 @@
+/**
+ * Validator of Spheron ICL YAML: the ICL schema, references between sections
+ * and common mistakes, reported with YAML paths and line and column numbers
+ */
+
+import { Document, LineCounter, Node, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import { ICL_SCHEMA } from '../resources/icl-schema.js';
+import { validateSchema } from '../tools/validation.js';
+
+export type IclIssueSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in an ICL configuration
+ */
+export interface IclIssue {
+  severity: IclIssueSeverity;
+  // Path of the offending value (e.g. "profiles.compute.py-cuda.resources.cpu.units")
+  path: string;
+  message: string;
+  // 1-based position of the value, or of its closest parent when it is missing
+  line: number | null;
+  column: number | null;
+}
+
+/**
+ * Result of validating an ICL configuration
+ */
+export interface IclValidationResult {
+  valid: boolean;
+  errors: IclIssue[];
+  warnings: IclIssue[];
+}
+
+type PathSegment = string | number;
+
+/**
+ * Split a path such as "services.web.expose[0].port" into keys and indexes
+ */
+function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const match of path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)) {
+    segments.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+  }
+  return segments;
+}
+
+/**
+ * Join keys and indexes into a path
+ */
+function formatPath(segments: PathSegment[]): string {
+  return segments.reduce<string>((path, segment) =>
+    typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment, '');
+}
+
+/**
+ * Find the position of a value in the document. Scalars point at the value, maps
+ * and lists at their key; a missing value points at its closest parent.
+ */
+function locate(doc: Document, lineCounter: LineCounter, segments: PathSegment[]): { line: number | null; column: number | null } {
+  let node: unknown = doc.contents;
+  let position: [number, number, number] | null | undefined = (doc.contents as Node | null)?.range;
+
+  for (const segment of segments) {
+    if (isMap(node)) {
+      const pair = node.items.find(item => isScalar(item.key) && String(item.key.value) === String(segment));
+      if (!pair) {
+        break;
+      }
+      node = pair.value;
+      position = isScalar(pair.value) ? pair.value.range : (pair.key as Node).range;
+    } else if (isSeq(node) && typeof segment === 'number' && node.items[segment]) {
+      node = node.items[segment];
+      position = (node as Node).range;
+    } else {
+      break;
+    }
+  }
+
+  if (!position) {
+    return { line: null, column: null };
+  }
+  const { line, col } = lineCounter.linePos(position[0]);
+  return { line, column: col };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check references between services, compute profiles, placements, pricing and
+ * the deployment section, and flag likely mistakes
+ * @param config Parsed configuration
+ * @param report Adds an issue at a path
+ */
+function checkReferences(
+  config: Record<string, any>,
+  report: (severity: IclIssueSeverity, segments: PathSegment[], message: string) => void
+): void {
+  const services = isObject(config.services) ? config.services : {};
+  const compute = isObject(config.profiles?.compute) ? config.profiles.compute : {};
+  const placements = isObject(config.profiles?.placement) ? config.profiles.placement : {};
+  const deployment = isObject(config.deployment) ? config.deployment : {};
+  const usedProfiles = new Set<string>();
+  const usedPlacements = new Set<string>();
+
+  for (const [serviceName, targets] of Object.entries(deployment)) {
+    if (!(serviceName in services)) {
+      report('error', ['deployment', serviceName], `deploys service "${serviceName}", which is not defined in services`);
+    }
+    if (!isObject(targets)) {
+      continue;
+    }
+
+    for (const [placementName, target] of Object.entries(targets)) {
+      usedPlacements.add(placementName);
+      const placement = placements[placementName];
+      if (placement === undefined) {
+        report('error', ['deployment', serviceName, placementName], `uses placement "${placementName}", which is not defined in profiles.placement`);
+      }
+      if (!isObject(target) || typeof target.profile !== 'string') {
+        continue;
+      }
+
+      usedProfiles.add(target.profile);
+      if (!(target.profile in compute)) {
+        report('error', ['deployment', serviceName, placementName, 'profile'], `refers to compute profile "${target.profile}", which is not defined in profiles.compute`);
+      }
+      if (isObject(placement) && isObject(placement.pricing) && !(target.profile in placement.pricing)) {
+        report('error', ['profiles', 'placement', placementName, 'pricing'], `has no price for compute profile "${target.profile}", used by service "${serviceName}"`);
+      }
+    }
+  }
+
+  for (const serviceName of Object.keys(services)) {
+    if (!(serviceName in deployment)) {
+      report('warning', ['services', serviceName], 'is not listed in deployment, so it will not run');
+    }
+  }
+  for (const profileName of Object.keys(compute)) {
+    if (!usedProfiles.has(profileName)) {
+      report('warning', ['profiles', 'compute', profileName], 'is not used by any deployment');
+    }
+  }
+  for (const [placementName, placement] of Object.entries(placements)) {
+    if (!usedPlacements.has(placementName)) {
+      report('warning', ['profiles', 'placement', placementName], 'is not used by any deployment');
+    }
+    if (!isObject(placement) || !isObject(placement.pricing)) {
+      continue;
+    }
+    for (const [profileName, price] of Object.entries(placement.pricing)) {
+      if (!(profileName in compute)) {
+        report('warning', ['profiles', 'placement', placementName, 'pricing', profileName], `prices compute profile "${profileName}", which is not defined in profiles.compute`);
+      } else if (isObject(price) && price.amount === 0) {
+        report('warning', ['profiles', 'placement', placementName, 'pricing', profileName, 'amount'], 'is 0, so no provider is likely to bid');
+      }
+    }
+  }
+
+  for (const [serviceName, service] of Object.entries(services)) {
+    if (!isObject(service)) {
+      continue;
+    }
+
+    if (typeof service.image === 'string' && !/[:@]/.test(service.image.split('/').pop() || '')) {
+      report('warning', ['services', serviceName, 'image'], 'has no tag, so "latest" is pulled; pin a version tag so updates are reproducible');
+    } else if (typeof service.image === 'string' && service.image.endsWith(':latest')) {
+      report('warning', ['services', serviceName, 'image'], 'uses the "latest" tag; pin a version so updates are reproducible');
+    }
+
+    if (Array.isArray(service.env)) {
+      const seen = new Set<string>();
+      service.env.forEach((entry: unknown, index: number) => {
+        const name = typeof entry === 'string' ? entry.split('=')[0] : null;
+        if (name && seen.has(name)) {
+          report('warning', ['services', serviceName, 'env', index], `sets ${name} again; the last value wins`);
+        }
+        if (name) {
+          seen.add(name);
+        }
+      });
+    }
+
+    if (Array.isArray(service.expose)) {
+      const exposedAs = new Set<number>();
+      service.expose.forEach((port: unknown, index: number) => {
+        if (!isObject(port)) {
+          return;
+        }
+        const as = port.as ?? port.port;
+        if (typeof as === 'number' && exposedAs.has(as)) {
+          report('error', ['services', serviceName, 'expose', index], `exposes port ${as} twice`);
+        }
+        exposedAs.add(as);
+
+        if (Array.isArray(port.to)) {
+          port.to.forEach((target: unknown, targetIndex: number) => {
+            if (isObject(target) && typeof target.service === 'string' && !(target.service in services)) {
+              report('error', ['services', serviceName, 'expose', index, 'to', targetIndex, 'service'], `refers to service "${target.service}", which is not defined in services`);
+            }
+          });
+        }
+      });
+    }
+  }
+
+  for (const [profileName, profile] of Object.entries<any>(compute)) {
+    const gpu = profile?.resources?.gpu;
+    if (isObject(gpu) && typeof gpu.units === 'number' && gpu.units > 0 && !isObject(gpu.attributes?.vendor)) {
+      report('warning', ['profiles', 'compute', profileName, 'resources', 'gpu'], 'requests GPUs without a vendor and model, so any GPU may be assigned');
+    }
+  }
+}
+
+/**
+ * Validate an ICL configuration
+ * @param yamlContent YAML configuration
+ * @returns Errors and warnings, each with its path and position
+ */
+export function validateIcl(yamlContent: string): IclValidationResult {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(yamlContent, { lineCounter, prettyErrors: false });
+  const errors: IclIssue[] = [];
+  const warnings: IclIssue[] = [];
+
+  if (doc.errors.length > 0) {
+    for (const error of doc.errors) {
+      const { line, col } = lineCounter.linePos(error.pos[0]);
+      errors.push({ severity: 'error', path: '(document)', message: `Invalid YAML: ${error.message}`, line, column: col });
+    }
+    return { valid: false, errors, warnings };
+  }
+
+  const config = doc.toJS();
+  const report = (severity: IclIssueSeverity, segments: PathSegment[], message: string) => {
+    const path = formatPath(segments) || '(document)';
+    (severity === 'error' ? errors : warnings).push({ severity, path, message, ...locate(doc, lineCounter, segments) });
+  };
+
+  for (const issue of validateSchema(ICL_SCHEMA, config, '')) {
+    report('error', parsePath(issue.path), issue.message);
+  }
+  if (isObject(config)) {
+    checkReferences(config, report);
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Describe an issue on one line
+ * @param issue Issue
+ * @returns Path, message and position (e.g. "services.web.image is required (line 3, column 5)")
+ */
+export function formatIclIssue(issue: IclIssue): string {
+  const position = issue.line !== null ? ` (line ${issue.line}, column ${issue.column})` : '';
+  return `${issue.path} ${issue.message}${position}`;
+}
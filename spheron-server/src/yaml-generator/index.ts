@@ -2,7 +2,9 @@
  * YAML generator for Spheron Protocol deployments
  */
 
-import { generateYaml, validateYaml, updateYaml } from './generator.js';
+import { generateYaml, validateYaml } from './generator.js';
+import { updateYaml, setDuration, YamlUpdateError, YamlUpdateTarget } from './yaml-updater.js';
+import { validateIcl, formatIclIssue, IclIssue, IclIssueSeverity, IclValidationResult } from './icl-validator.js';
 import { ExtractedParams } from '../natural-language-processor/index.js';
 
 /**
@@ -19,16 +21,43 @@ export function generateYamlFromParams(params: ExtractedParams): string {
  * @param yamlConfig YAML configuration
  * @returns Validation result
  */
-export function validateYamlConfig(yamlConfig: string): { valid: boolean; errors: string[] } {
+export function validateYamlConfig(yamlConfig: string): { valid: boolean; errors: string[]; warnings: string[] } {
   return validateYaml(yamlConfig);
 }
 
 /**
- * Update existing YAML configuration with new parameters
+ * Validate YAML configuration, with the path and position of each error and warning
+ * @param yamlConfig YAML configuration
+ * @returns Validation result
+ */
+export function validateIclYaml(yamlConfig: string): IclValidationResult {
+  return validateIcl(yamlConfig);
+}
+
+/**
+ * Update existing YAML configuration with new parameters, keeping its comments and formatting
  * @param existingYaml Existing YAML configuration
  * @param params New parameters
+ * @param target Service, compute profile and placement the main service parameters apply to
  * @returns Updated YAML configuration
+ * @throws YamlUpdateError when the configuration cannot be updated
  */
-export function updateYamlConfig(existingYaml: string, params: ExtractedParams): string {
-  return updateYaml(existingYaml, params);
+export function updateYamlConfig(existingYaml: string, params: ExtractedParams, target?: YamlUpdateTarget): string {
+  return updateYaml(existingYaml, params, target);
 }
+
+/**
+ * Change the lease duration of an existing YAML configuration
+ * @param existingYaml Existing YAML configuration
+ * @param duration New duration (e.g. "4h", "2d")
+ * @returns Updated YAML configuration with the previous and new durations
+ */
+export function setYamlDuration(existingYaml: string, duration: string): {
+  yaml: string;
+  previousDuration: string;
+  duration: string;
+} {
+  return setDuration(existingYaml, duration);
+}
+
+export { formatIclIssue, IclIssue, IclIssueSeverity, IclValidationResult, YamlUpdateError, YamlUpdateTarget };
@@ -0,0 +1,367 @@
+/**
+ * Updates of existing YAML configurations that keep comments, key order and formatting
+ */
+
+import { Document, LineCounter, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import {
+  ExtractedParams,
+  ServiceParams,
+  listServices,
+  DEFAULT_SERVICE_PARAMS
+} from '../natural-language-processor/index.js';
+import { parseDurationHours } from '../utils/duration.js';
+import { estimateHourlyRate } from '../pricing/index.js';
+import { getConfig } from '../config/index.js';
+import {
+  generateServiceConfig,
+  generateExposeConfig,
+  generateEnvConfig,
+  generateResourcesConfig
+} from './generator.js';
+
+type YamlPath = Array<string | number>;
+
+/**
+ * Parts of a configuration the main service parameters apply to
+ */
+export interface YamlUpdateTarget {
+  // Service to update (defaults to the service named by params.name, else the first service)
+  service?: string;
+  // Compute profile to update (defaults to the profiles the service is deployed with)
+  profile?: string;
+  // Placement whose pricing and count to update (defaults to every placement the service is deployed to)
+  region?: string;
+}
+
+/**
+ * Thrown when a configuration cannot be updated. The document is left as it was.
+ */
+export class YamlUpdateError extends Error {
+  // Path of the part that could not be updated (e.g. "profiles.compute")
+  readonly path: string;
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = 'YamlUpdateError';
+    this.path = path;
+  }
+}
+
+/**
+ * Parse a configuration for editing
+ * @param existingYaml YAML configuration
+ * @returns Document that keeps comments and formatting
+ */
+function parseConfig(existingYaml: string): Document {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(existingYaml, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    const { line, col } = lineCounter.linePos(doc.errors[0].pos[0]);
+    throw new YamlUpdateError(`Invalid YAML at line ${line}, column ${col}: ${doc.errors[0].message}`, '(document)');
+  }
+  if (!isMap(doc.contents)) {
+    throw new YamlUpdateError('The configuration must be a mapping', '(document)');
+  }
+
+  return doc;
+}
+
+/**
+ * Serialize a document with the indentation of the original text
+ * @param doc Edited document
+ * @param source Original YAML configuration
+ * @returns YAML configuration
+ */
+function stringifyConfig(doc: Document, source: string): string {
+  const lines = source.split(/\r?\n/).filter(line => line.trim() !== '' && !line.trim().startsWith('#'));
+  const indented = lines.find(line => /^ +\S/.test(line));
+  const indent = indented ? indented.length - indented.trimStart().length : 2;
+
+  // Lists written at the same indentation as their key ("key:\n- item") are kept that way
+  let indentSeq = true;
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (/:\s*$/.test(lines[i]) && lines[i + 1].trimStart().startsWith('- ')) {
+      const keyIndent = lines[i].length - lines[i].trimStart().length;
+      indentSeq = lines[i + 1].length - lines[i + 1].trimStart().length > keyIndent;
+      break;
+    }
+  }
+
+  return doc.toString({ indent, indentSeq, lineWidth: 0 });
+}
+
+function formatPath(path: YamlPath): string {
+  return path.join('.');
+}
+
+/**
+ * Keys of the mapping at a path
+ */
+function keysAt(doc: Document, path: YamlPath): string[] {
+  const node = doc.getIn(path, true);
+  return isMap(node) ? node.items.map(pair => String(isScalar(pair.key) ? pair.key.value : pair.key)) : [];
+}
+
+/**
+ * Set a value. Scalars that already exist are changed in place, so their quoting
+ * and comments are kept.
+ */
+function setValue(doc: Document, path: YamlPath, value: unknown): void {
+  const node = doc.getIn(path, true);
+
+  if (isScalar(node) && (value === null || typeof value !== 'object')) {
+    node.value = value;
+  } else {
+    doc.setIn(path, doc.createNode(value));
+  }
+}
+
+/**
+ * Update the main service and the other services of a configuration. Services are
+ * updated by name; services the configuration does not have are added.
+ * @param existingYaml Existing YAML configuration
+ * @param params New parameters
+ * @param target Service, compute profile and placement the main service parameters apply to
+ * @returns Updated YAML configuration
+ */
+export function updateYaml(existingYaml: string, params: ExtractedParams, target: YamlUpdateTarget = {}): string {
+  const doc = parseConfig(existingYaml);
+  const [main, ...others] = listServices(params);
+  const serviceNames = keysAt(doc, ['services']);
+
+  if (serviceNames.length === 0) {
+    throw new YamlUpdateError('The configuration has no services', 'services');
+  }
+
+  const mainService = target.service
+    ?? (params.name && serviceNames.includes(params.name) ? params.name : serviceNames[0]);
+  if (!serviceNames.includes(mainService)) {
+    throw new YamlUpdateError(
+      `Service "${mainService}" is not defined. Services: ${serviceNames.join(', ')}`,
+      'services'
+    );
+  }
+
+  updateService(doc, mainService, main, target);
+  for (const service of others) {
+    if (serviceNames.includes(service.name)) {
+      updateService(doc, service.name, service, {});
+    } else {
+      addService(doc, mainService, { ...DEFAULT_SERVICE_PARAMS, ...service }, target.region);
+    }
+  }
+
+  // Update profiles
+  const profileSettings: Array<[string, string | undefined]> = [
+    ['name', params.name],
+    ['duration', params.duration],
+    ['mode', params.mode]
+  ];
+  for (const [key, value] of profileSettings) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!isMap(doc.getIn(['profiles'], true))) {
+      throw new YamlUpdateError('The configuration has no profiles section', 'profiles');
+    }
+    setValue(doc, ['profiles', key], value);
+  }
+
+  return stringifyConfig(doc, existingYaml);
+}
+
+/**
+ * Update a service, the compute profiles it is deployed with and its pricing and
+ * count in each placement
+ * @param doc Configuration
+ * @param serviceName Name of the service
+ * @param service New service parameters
+ * @param target Compute profile and placement to limit the update to
+ */
+function updateService(doc: Document, serviceName: string, service: ServiceParams, target: YamlUpdateTarget): void {
+  const servicePath = ['services', serviceName];
+
+  if (service.image) {
+    setValue(doc, [...servicePath, 'image'], service.image);
+  }
+  if (service.pullPolicy) {
+    setValue(doc, [...servicePath, 'pull_policy'], service.pullPolicy);
+  }
+  if (service.command) {
+    setValue(doc, [...servicePath, 'command'], service.command);
+  }
+  if (service.args) {
+    setValue(doc, [...servicePath, 'args'], service.args);
+  }
+  if (service.ports) {
+    setValue(doc, [...servicePath, 'expose'], generateExposeConfig(service));
+  }
+  if (service.env) {
+    setValue(doc, [...servicePath, 'env'], generateEnvConfig(service));
+  }
+
+  const placements = keysAt(doc, ['deployment', serviceName]);
+  if (target.region && !placements.includes(target.region)) {
+    throw new YamlUpdateError(
+      `Service "${serviceName}" is not deployed to placement "${target.region}". Placements: ${placements.join(', ') || 'none'}`,
+      formatPath(['deployment', serviceName])
+    );
+  }
+  if (target.profile && !keysAt(doc, ['profiles', 'compute']).includes(target.profile)) {
+    throw new YamlUpdateError(
+      `Compute profile "${target.profile}" is not defined. Profiles: ${keysAt(doc, ['profiles', 'compute']).join(', ') || 'none'}`,
+      'profiles.compute'
+    );
+  }
+
+  const profiles = new Set<string>();
+  for (const placement of target.region ? [target.region] : placements) {
+    const entryPath = ['deployment', serviceName, placement];
+    const profile = target.profile ?? doc.getIn([...entryPath, 'profile']);
+    if (typeof profile !== 'string') {
+      throw new YamlUpdateError(`Deployment of "${serviceName}" to "${placement}" has no profile`, formatPath(entryPath));
+    }
+    profiles.add(profile);
+
+    if (service.count) {
+      setValue(doc, [...entryPath, 'count'], service.count);
+    }
+
+    const pricingPath = ['profiles', 'placement', placement, 'pricing', profile];
+    if (isMap(doc.getIn(pricingPath, true))) {
+      // Always set token to CST
+      setValue(doc, [...pricingPath, 'token'], 'CST');
+      if (service.amount) {
+        setValue(doc, [...pricingPath, 'amount'], service.amount);
+      }
+    } else if (service.amount) {
+      throw new YamlUpdateError(
+        `Placement "${placement}" has no pricing for compute profile "${profile}"`,
+        formatPath(['profiles', 'placement', placement, 'pricing'])
+      );
+    }
+  }
+  if (target.profile) {
+    profiles.add(target.profile);
+  }
+
+  for (const profile of profiles) {
+    updateResources(doc, ['profiles', 'compute', profile, 'resources'], service);
+  }
+}
+
+/**
+ * Update the resources of a compute profile
+ * @param doc Configuration
+ * @param path Path of the resources
+ * @param service New service parameters
+ */
+function updateResources(doc: Document, path: YamlPath, service: ServiceParams): void {
+  if (!service.cpu && !service.memory && !service.storage && !service.gpu) {
+    return;
+  }
+  if (!isMap(doc.getIn(path, true))) {
+    throw new YamlUpdateError('Compute profile has no resources', formatPath(path));
+  }
+
+  if (service.cpu) {
+    setValue(doc, [...path, 'cpu', 'units'], service.cpu);
+  }
+  if (service.memory) {
+    setValue(doc, [...path, 'memory', 'size'], service.memory);
+  }
+  if (service.storage) {
+    // The first volume is the root volume
+    const storage = doc.getIn([...path, 'storage'], true);
+    if (isSeq(storage) && storage.items.length > 0) {
+      setValue(doc, [...path, 'storage', 0, 'size'], service.storage);
+    } else {
+      setValue(doc, [...path, 'storage'], [{ size: service.storage }]);
+    }
+  }
+  if (service.gpu?.units === 0) {
+    doc.deleteIn([...path, 'gpu']);
+  } else if (service.gpu) {
+    if (!isMap(doc.getIn([...path, 'gpu'], true))) {
+      setValue(doc, [...path, 'gpu'], generateResourcesConfig(service).gpu);
+      return;
+    }
+    if (service.gpu.units) {
+      setValue(doc, [...path, 'gpu', 'units'], service.gpu.units);
+    }
+    if (service.gpu.model) {
+      setValue(doc, [...path, 'gpu', 'attributes', 'vendor'], { nvidia: [{ model: service.gpu.model }] });
+    }
+  }
+}
+
+/**
+ * Add a service with a compute profile of the same name, priced in the placement
+ * of the main service
+ * @param doc Configuration
+ * @param mainService Name of the main service
+ * @param service Service parameters
+ * @param region Placement to deploy the service to
+ */
+function addService(doc: Document, mainService: string, service: ServiceParams & { name: string }, region?: string): void {
+  if (!service.image) {
+    throw new YamlUpdateError(`Service "${service.name}" has no image`, formatPath(['services', service.name]));
+  }
+  if (keysAt(doc, ['profiles', 'compute']).includes(service.name)) {
+    throw new YamlUpdateError(
+      `Compute profile "${service.name}" already exists, so service "${service.name}" cannot be added`,
+      formatPath(['profiles', 'compute', service.name])
+    );
+  }
+
+  const placement = region
+    ?? keysAt(doc, ['deployment', mainService])[0]
+    ?? keysAt(doc, ['profiles', 'placement'])[0]
+    ?? getConfig().deployment.defaultRegion;
+
+  doc.setIn(['services', service.name], doc.createNode(generateServiceConfig(service)));
+  doc.setIn(['profiles', 'compute', service.name], doc.createNode({ resources: generateResourcesConfig(service) }));
+  doc.setIn(['profiles', 'placement', placement, 'pricing', service.name], doc.createNode({
+    token: 'CST',
+    amount: service.amount ?? estimateHourlyRate(service)
+  }));
+  doc.setIn(['deployment', service.name], doc.createNode({
+    [placement]: {
+      profile: service.name,
+      count: service.count || 1
+    }
+  }));
+}
+
+/**
+ * Change the lease duration of a YAML configuration.
+ * Pricing amounts are hourly rates, so they are left unchanged.
+ * @param existingYaml Existing YAML configuration
+ * @param duration New duration (e.g. "4h", "2d")
+ * @returns Updated YAML configuration with the previous and new durations
+ */
+export function setDuration(existingYaml: string, duration: string): {
+  yaml: string;
+  previousDuration: string;
+  duration: string;
+} {
+  const newHours = parseDurationHours(duration);
+  if (newHours === null || newHours <= 0) {
+    throw new YamlUpdateError(`Invalid duration "${duration}"`, 'profiles.duration');
+  }
+
+  const doc = parseConfig(existingYaml);
+  if (!isMap(doc.getIn(['profiles'], true))) {
+    throw new YamlUpdateError('YAML configuration has no profiles section', 'profiles');
+  }
+
+  const previousDuration = String(doc.getIn(['profiles', 'duration']) ?? '');
+  setValue(doc, ['profiles', 'duration'], duration);
+
+  return {
+    yaml: stringifyConfig(doc, existingYaml),
+    previousDuration,
+    duration
+  };
+}